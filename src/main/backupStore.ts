@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import { UndoResult } from './types';
+
+// 覆盖源文件前的备份：每个批次在备份目录下占一个子目录，其中 journal.json 记录
+// 原文件与备份的对应关系。日志在处理开始前写入，批次中途失败或被中断也能据此还原
+
+const JOURNAL_FILE = 'journal.json';
+
+export interface BackupEntry {
+  original: string;
+  backup: string;
+}
+
+export interface BackupJournal {
+  id: string;
+  createdAt: string;
+  entries: BackupEntry[];
+}
+
+export async function saveJournal(dir: string, journal: BackupJournal) {
+  await fs.promises.writeFile(path.join(dir, JOURNAL_FILE), JSON.stringify(journal, null, 2));
+}
+
+/** 在备份目录下为新批次创建子目录，以创建时间命名以便按时间排序 */
+export async function startJournal(storeDir: string) {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  let id = stamp;
+  for (let n = 1; fs.existsSync(path.join(storeDir, id)); n++) id = `${stamp}-${n}`;
+  const dir = path.join(storeDir, id);
+  await fs.promises.mkdir(dir, { recursive: true });
+  const journal: BackupJournal = { id, createdAt: new Date().toISOString(), entries: [] };
+  await saveJournal(dir, journal);
+  return { dir, journal };
+}
+
+/**
+ * 批次结束后只保留原文件确实被替换的备份，没有剩余备份时删除整个批次目录
+ */
+export async function finishJournal(dir: string, journal: BackupJournal, replaced: Set<string>) {
+  const kept: BackupEntry[] = [];
+  for (const entry of journal.entries) {
+    if (replaced.has(entry.original)) kept.push(entry);
+    else await fs.promises.rm(entry.backup, { force: true });
+  }
+  if (kept.length === 0) {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+    return;
+  }
+  await saveJournal(dir, { ...journal, entries: kept });
+}
+
+/** 最近一个仍有备份的批次，没有时返回 null */
+export async function latestJournal(storeDir: string): Promise<{ dir: string; journal: BackupJournal } | null> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(storeDir);
+  } catch {
+    return null;
+  }
+  for (const name of names.sort().reverse()) {
+    const dir = path.join(storeDir, name);
+    try {
+      const journal = JSON.parse(await fs.promises.readFile(path.join(dir, JOURNAL_FILE), 'utf-8')) as BackupJournal;
+      if (journal.entries.length > 0) return { dir, journal };
+    } catch {
+      // 不是批次目录或日志损坏，继续查找更早的批次
+    }
+  }
+  return null;
+}
+
+/**
+ * 用备份还原最近一个批次替换过的原文件（保留备份时的时间戳）。
+ * 全部还原后删除该批次的备份，再次撤销会还原更早的批次；
+ * 部分失败时保留失败项的备份以便重试
+ */
+export async function undoLatestBatch(storeDir: string): Promise<UndoResult | null> {
+  const latest = await latestJournal(storeDir);
+  if (!latest) return null;
+  const { dir, journal } = latest;
+  const result: UndoResult = { batchId: journal.id, restored: [], failed: [] };
+  const remaining: BackupEntry[] = [];
+
+  for (const entry of journal.entries) {
+    try {
+      // 备份不存在说明批次中断在复制之前，原文件未被改动
+      if (!fs.existsSync(entry.backup)) continue;
+      const stat = await fs.promises.stat(entry.backup);
+      await fs.promises.copyFile(entry.backup, entry.original);
+      await fs.promises.utimes(entry.original, stat.atime, stat.mtime);
+      result.restored.push(entry.original);
+    } catch (err) {
+      remaining.push(entry);
+      result.failed.push({ path: entry.original, message: err instanceof Error ? err.message : '还原失败' });
+    }
+  }
+
+  if (remaining.length === 0) {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  } else {
+    await saveJournal(dir, { ...journal, entries: remaining });
+  }
+  return result;
+}
@@ -0,0 +1,261 @@
+import fs from 'fs';
+import os from 'os';
+import { detectProcessorType, processByType } from './processorRouter';
+import { getProcessor } from './processorRegistry';
+import { ResolvedPath, resolvePaths } from './outputStrategy';
+import { OutputExistsError } from './errors';
+import { finishJournal, saveJournal, startJournal } from './backupStore';
+import { verifyOutput } from './outputVerifier';
+import { WorkerPool } from './workerPool';
+import { ProcessItem, ProcessOptions, ProcessProgress, ProcessResult } from './types';
+
+const COLLISION_MESSAGES = {
+  overwritten: '已覆盖同名的输出文件',
+  renamed: '输出文件已存在，已自动编号',
+};
+
+async function dryRunItem(inputPath: string, target: ResolvedPath, options: ProcessOptions): Promise<ProcessResult> {
+  const type = await detectProcessorType(inputPath);
+  if (!type) {
+    return { inputPath, status: 'error', message: '不支持的文件类型' };
+  }
+  const collision = target.collision === 'skipped' ? undefined : target.collision;
+  return {
+    inputPath,
+    outputPath: options.overwriteSource ? inputPath : target.outputPath,
+    status: 'skipped',
+    type,
+    collision,
+    message: `演练模式，未写入文件${collision ? `（${COLLISION_MESSAGES[collision]}）` : ''}`,
+  };
+}
+
+const existingResult = (inputPath: string, outputPath: string): ProcessResult => ({
+  inputPath,
+  outputPath,
+  status: 'skipped',
+  reason: 'output-exists',
+  message: '输出文件已存在，已跳过',
+});
+
+const failedResult = (inputPath: string, err: unknown): ProcessResult => ({
+  inputPath,
+  status: 'error',
+  reason: err instanceof OutputExistsError ? 'output-exists' : undefined,
+  message: err instanceof Error ? err.message : '处理失败',
+});
+
+/**
+ * 处理单个文件：解析输出路径、调用对应处理器并保留时间戳，
+ * 覆盖模式下再将临时文件替换回原文件。
+ * resolved 为批处理层预先分配的输出路径，缺省时在此解析
+ */
+export async function processItem(
+  item: ProcessItem,
+  options: ProcessOptions,
+  resolved?: ResolvedPath
+): Promise<ProcessResult> {
+  if (!item?.path) {
+    return {
+      inputPath: '',
+      status: 'error',
+      message: '无效的文件路径',
+    };
+  }
+  try {
+    const target = resolved ?? await resolvePaths(item, options);
+    if (target.collision === 'skipped') {
+      return existingResult(item.path, target.outputPath);
+    }
+    if (options.dryRun) {
+      return await dryRunItem(item.path, target, options);
+    }
+
+    const { outputPath, backupPath } = target;
+    const stat = await fs.promises.stat(item.path);
+
+    if (backupPath) {
+      await fs.promises.copyFile(item.path, backupPath);
+      await fs.promises.utimes(backupPath, stat.atime, stat.mtime);
+    }
+
+    const result = await processByType(item.path, outputPath, options);
+    if (result.reason === 'cancelled') {
+      // 删除被中断的处理器留下的不完整输出，原文件未被改动
+      await fs.promises.rm(outputPath, { force: true });
+      delete result.outputPath;
+      return result;
+    }
+    if (result.status === 'success' && !options.skipVerify) {
+      const residual = await verifyOutput(item.path, outputPath, options);
+      if (residual.length > 0) {
+        result.status = 'warning';
+        result.residual = residual;
+        result.message = `校验发现残留元数据：${residual.join('、')}`;
+      }
+    }
+    if (result.status === 'success' || result.status === 'warning') {
+      // 保持文件系统时间戳
+      await fs.promises.utimes(outputPath, stat.atime, stat.mtime);
+
+      if (target.collision) {
+        result.collision = target.collision;
+        result.message ??= COLLISION_MESSAGES[target.collision];
+      }
+
+      if (options.overwriteSource) {
+        // 如果是覆盖模式，将临时文件重命名回原文件
+        await fs.promises.rename(outputPath, item.path);
+        result.outputPath = item.path; // 更新输出路径为原路径
+        result.backupPath = backupPath;
+      }
+    }
+    return result;
+  } catch (err) {
+    // 如果出错且在覆盖模式下，尝试清理临时文件
+    try {
+      const { outputPath } = await resolvePaths(item, options);
+      if (options.overwriteSource && fs.existsSync(outputPath)) {
+        await fs.promises.unlink(outputPath);
+      }
+    } catch (e) {
+      // ignore
+    }
+    return failedResult(item.path, err);
+  }
+}
+
+const cancelledResult = (inputPath: string): ProcessResult => ({
+  inputPath,
+  status: 'skipped',
+  reason: 'cancelled',
+  message: '已取消',
+});
+
+// 处理器所属组同时运行的上限：ffmpeg 自身会占用多个核心，一次只运行一个；未列出的组同样为 1
+const GROUP_LIMITS: Record<string, number> = { ffmpeg: 1 };
+
+/** 默认并行数：可用核心数，最多 4 个 */
+export const defaultConcurrency = () => Math.max(1, Math.min(4, os.availableParallelism()));
+
+/**
+ * 在工作线程池中并行处理批次中的文件，结果按输入顺序返回。
+ * options.signal 触发后正在处理的文件中止，尚未开始的文件标记为已取消；
+ * onProgress 在每个文件开始、处理中与完成时收到按字节计算的进度
+ */
+export async function processBatch(
+  items: ProcessItem[],
+  options: ProcessOptions,
+  onProgress?: (progress: ProcessProgress) => void
+): Promise<ProcessResult[]> {
+  const { signal, onProgress: _fileProgress, ...transferable } = options;
+  const [sizes, groups] = await Promise.all([
+    Promise.all(items.map((item) => fs.promises.stat(item?.path).then((s) => s.size, () => 0))),
+    Promise.all(items.map((item) =>
+      item?.path ? detectProcessorType(item.path).then((type) => getProcessor(type)?.group, () => undefined) : undefined
+    )),
+  ]);
+  const batchSize = sizes.reduce((sum, size) => sum + size, 0);
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? defaultConcurrency()));
+  const pool = new WorkerPool(Math.min(concurrency, items.length));
+
+  const results: ProcessResult[] = new Array(items.length);
+  const inFlight = new Map<number, number>();
+  let finishedBytes = 0;
+  const report = (index: number, fileBytes: number, result?: ProcessResult) => {
+    if (result) {
+      inFlight.delete(index);
+      finishedBytes += sizes[index];
+    } else {
+      inFlight.set(index, fileBytes);
+    }
+    let batchBytes = finishedBytes;
+    for (const bytes of inFlight.values()) batchBytes += bytes;
+    onProgress?.({
+      inputPath: items[index]?.path ?? '',
+      index,
+      total: items.length,
+      fileBytes,
+      fileSize: sizes[index],
+      batchBytes,
+      batchSize,
+      result,
+    });
+  };
+
+  // 覆盖模式下先写好备份日志再开始处理，批次中途失败也能撤销
+  const backup = options.overwriteSource && options.backupDir && !options.dryRun
+    ? await startJournal(options.backupDir)
+    : undefined;
+  const resolveOptions = backup ? { ...options, backupDir: backup.dir } : options;
+
+  // 在主线程按输入顺序预先分配输出路径：自动编号的结果与并行度无关，
+  // 并行处理的文件也不会写到同一位置
+  const reserved = new Set<string>();
+  const targets = new Array<ResolvedPath | undefined>(items.length);
+  for (const [index, item] of items.entries()) {
+    if (!item?.path) continue;
+    try {
+      const target = await resolvePaths(item, resolveOptions, reserved);
+      targets[index] = target;
+      if (backup && target.backupPath) {
+        backup.journal.entries.push({ original: item.path, backup: target.backupPath });
+      }
+    } catch (err) {
+      results[index] = failedResult(item.path, err);
+      report(index, sizes[index], results[index]);
+    }
+  }
+  if (backup) await saveJournal(backup.dir, backup.journal);
+
+  const pending = items.map((_, index) => index).filter((index) => !results[index]);
+  const running = new Map<string, number>();
+  let active = 0;
+  try {
+    await new Promise<void>((resolve) => {
+      const launch = () => {
+        if (signal?.aborted) {
+          for (const index of pending.splice(0)) {
+            results[index] = cancelledResult(items[index]?.path ?? '');
+            report(index, sizes[index], results[index]);
+          }
+        }
+        while (active < concurrency) {
+          // 按输入顺序挑选下一个所在组未达上限的文件
+          const next = pending.findIndex((index) => {
+            const group = groups[index];
+            return !group || (running.get(group) ?? 0) < (GROUP_LIMITS[group] ?? 1);
+          });
+          if (next < 0) break;
+          const [index] = pending.splice(next, 1);
+          const group = groups[index];
+          if (group) running.set(group, (running.get(group) ?? 0) + 1);
+          active++;
+          report(index, 0);
+          pool
+            .run(items[index], targets[index], transferable, signal, (fraction) =>
+              report(index, Math.round(fraction * sizes[index]))
+            )
+            // 工作线程无法启动或在当前线程内处理出错时 run 会拒绝，同样记为失败并释放并发名额，避免批次挂起
+            .catch((err) => failedResult(items[index].path, err))
+            .then((result) => {
+              results[index] = result;
+              report(index, sizes[index], result);
+              if (group) running.set(group, running.get(group)! - 1);
+              active--;
+              launch();
+            });
+        }
+        if (active === 0 && pending.length === 0) resolve();
+      };
+      launch();
+    });
+  } finally {
+    await pool.close();
+  }
+  if (backup) {
+    const replaced = results.filter((r) => r.backupPath).map((r) => r.inputPath);
+    await finishJournal(backup.dir, backup.journal, new Set(replaced));
+  }
+  return results;
+}
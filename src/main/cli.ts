@@ -0,0 +1,279 @@
+#!/usr/bin/env node
+import path from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_SCAN_OPTIONS, scanPaths } from './fileScanner';
+import { processBatch } from './batchProcessor';
+import { undoLatestBatch } from './backupStore';
+import { BUILTIN_PROFILES, findProfile } from './profiles';
+import { loadPlugins } from './processorRegistry';
+import { CollisionPolicy, ProcessOptions, ProcessResult, RevisionPolicy, ScanOptions, SymlinkPolicy } from './types';
+
+const EXIT_OK = 0;
+const EXIT_PROCESS_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_VERIFY_WARNING = 3;
+const EXIT_CANCELLED = 130;
+
+const USAGE = `用法: info-remover [选项] <文件或目录...>
+
+选项:
+  -o, --out <dir>       输出目录（与 --in-place 二选一）
+  -s, --suffix <text>   输出文件名后缀，默认 "-clean"
+      --in-place        直接覆盖源文件
+      --backup-dir <dir>  覆盖前将原文件备份到该目录，可用 --undo 撤销
+      --undo            用 --backup-dir 中的备份还原最近一次覆盖处理，无需指定文件
+      --preserve-structure  在输出目录下保持传入目录的子目录结构
+      --on-conflict <p> 输出文件已存在时: rename（默认，自动编号）| overwrite | skip | error；
+                        同一批次内的同名输出总是自动编号
+      --include <glob>  扫描目录时只包含匹配的文件，可重复指定
+      --exclude <glob>  扫描目录时排除匹配的文件或目录，可重复指定，
+                        默认 ${DEFAULT_SCAN_OPTIONS.exclude.join('、')}（指定后替换默认值）
+      --max-depth <n>   扫描目录时进入子目录的最大层数，0 只取目录下的直接文件
+      --hidden          扫描目录时包含以 . 开头的隐藏文件与目录
+      --symlinks <p>    符号链接: follow（默认，跳过循环）| follow-once | skip
+      --dry-run         仅列出将要处理的文件，不写入任何内容
+      --json            以 JSON 输出处理结果
+      --skip-verify     跳过处理后的残留元数据校验
+      --revisions <p>   Word 修订处理方式: anonymize（默认，保留修订内容）| accept | reject
+      --archive-depth <n>  压缩包递归清理的最大嵌套层数，默认 2
+  -j, --jobs <n>        同时处理的文件数，默认按 CPU 核心数（最多 4），音视频始终逐个处理
+      --keep-cover      保留音频文件的内嵌封面（MP3/FLAC/M4A）
+      --apply-orientation  按 EXIF 方向旋转图片像素（会重新编码图片）
+      --keep-pdf-links  保留 PDF 中的超链接
+      --keep-pdf-forms  保留 PDF 表单控件（填写值仍会清空）
+      --keep-language   保留视频音视频流的语言标签
+      --keep-subtitles  保留视频字幕轨道（轨道名称等标签仍会删除）
+      --password <pw>   加密 PDF / Office 文件的密码，清理后按原密码重新加密
+      --profile <id>    元数据保留配置: ${BUILTIN_PROFILES.map((p) => p.id).join(' | ')}，默认 strict
+      --plugins <dir>   从目录加载额外的处理器插件（.js），可重复指定
+  -h, --help            显示帮助
+
+退出码: 0 全部成功；1 存在处理失败的文件；2 参数错误；3 校验发现残留元数据；130 被 Ctrl+C 取消`;
+
+const REVISION_POLICIES: RevisionPolicy[] = ['accept', 'reject', 'anonymize'];
+const COLLISION_POLICIES: CollisionPolicy[] = ['rename', 'overwrite', 'skip', 'error'];
+const SYMLINK_POLICIES: SymlinkPolicy[] = ['follow', 'follow-once', 'skip'];
+
+class UsageError extends Error {}
+
+function parseCli(argv: string[]) {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        suffix: { type: 'string', short: 's' },
+        'in-place': { type: 'boolean', default: false },
+        'backup-dir': { type: 'string' },
+        undo: { type: 'boolean', default: false },
+        'preserve-structure': { type: 'boolean', default: false },
+        'on-conflict': { type: 'string', default: 'rename' },
+        include: { type: 'string', multiple: true },
+        exclude: { type: 'string', multiple: true },
+        'max-depth': { type: 'string' },
+        hidden: { type: 'boolean', default: false },
+        symlinks: { type: 'string', default: 'follow' },
+        'dry-run': { type: 'boolean', default: false },
+        json: { type: 'boolean', default: false },
+        'skip-verify': { type: 'boolean', default: false },
+        revisions: { type: 'string', default: 'anonymize' },
+        'archive-depth': { type: 'string' },
+        jobs: { type: 'string', short: 'j' },
+        'keep-cover': { type: 'boolean', default: false },
+        'apply-orientation': { type: 'boolean', default: false },
+        'keep-pdf-links': { type: 'boolean', default: false },
+        'keep-pdf-forms': { type: 'boolean', default: false },
+        'keep-language': { type: 'boolean', default: false },
+        'keep-subtitles': { type: 'boolean', default: false },
+        password: { type: 'string' },
+        profile: { type: 'string' },
+        plugins: { type: 'string', multiple: true },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) return { help: true as const };
+
+  const backupDir = values['backup-dir'] ? path.resolve(values['backup-dir']) : undefined;
+  if (values.undo) {
+    if (!backupDir) throw new UsageError('--undo 需要通过 --backup-dir 指定备份目录');
+    return { help: false as const, undo: true as const, backupDir, json: !!values.json };
+  }
+
+  if (positionals.length === 0) {
+    throw new UsageError('未指定要处理的文件或目录');
+  }
+  if (values['in-place'] && values.out) {
+    throw new UsageError('--out 与 --in-place 不能同时使用');
+  }
+  if (!values['in-place'] && !values.out) {
+    throw new UsageError('请通过 --out 指定输出目录，或使用 --in-place 覆盖源文件');
+  }
+  if (backupDir && !values['in-place']) {
+    throw new UsageError('--backup-dir 仅用于 --in-place');
+  }
+
+  if (!REVISION_POLICIES.includes(values.revisions as RevisionPolicy)) {
+    throw new UsageError(`--revisions 仅支持 ${REVISION_POLICIES.join(' / ')}`);
+  }
+  if (!COLLISION_POLICIES.includes(values['on-conflict'] as CollisionPolicy)) {
+    throw new UsageError(`--on-conflict 仅支持 ${COLLISION_POLICIES.join(' / ')}`);
+  }
+
+  const archiveDepth = values['archive-depth'] === undefined ? undefined : Number(values['archive-depth']);
+  if (archiveDepth !== undefined && (!Number.isInteger(archiveDepth) || archiveDepth < 0)) {
+    throw new UsageError('--archive-depth 必须为非负整数');
+  }
+  const maxDepth = values['max-depth'] === undefined ? undefined : Number(values['max-depth']);
+  if (maxDepth !== undefined && (!Number.isInteger(maxDepth) || maxDepth < 0)) {
+    throw new UsageError('--max-depth 必须为非负整数');
+  }
+  if (!SYMLINK_POLICIES.includes(values.symlinks as SymlinkPolicy)) {
+    throw new UsageError(`--symlinks 仅支持 ${SYMLINK_POLICIES.join(' / ')}`);
+  }
+  const scan: ScanOptions = {
+    include: values.include,
+    exclude: values.exclude,
+    maxDepth,
+    includeHidden: values.hidden,
+    symlinks: values.symlinks as SymlinkPolicy,
+  };
+
+  const concurrency = values.jobs === undefined ? undefined : Number(values.jobs);
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new UsageError('--jobs 必须为正整数');
+  }
+
+  const profile = findProfile(values.profile);
+  if (!profile) {
+    throw new UsageError(`--profile 仅支持 ${BUILTIN_PROFILES.map((p) => p.id).join(' / ')}`);
+  }
+
+  const options: ProcessOptions = {
+    outputDir: values.out ? path.resolve(values.out) : '',
+    copySuffix: values.suffix,
+    overwriteSource: values['in-place'],
+    backupDir,
+    preserveStructure: values['preserve-structure'],
+    collisionPolicy: values['on-conflict'] as CollisionPolicy,
+    dryRun: values['dry-run'],
+    skipVerify: values['skip-verify'],
+    revisionPolicy: values.revisions as RevisionPolicy,
+    archiveDepth,
+    concurrency,
+    keepCoverArt: values['keep-cover'],
+    profile,
+    applyOrientation: values['apply-orientation'],
+    keepPdfLinks: values['keep-pdf-links'],
+    keepPdfForms: values['keep-pdf-forms'],
+    keepLanguage: values['keep-language'],
+    keepSubtitles: values['keep-subtitles'],
+    password: values.password,
+  };
+  return {
+    help: false as const,
+    undo: false as const,
+    paths: positionals.map((p) => path.resolve(p)),
+    options,
+    scan,
+    pluginDirs: values.plugins ?? [],
+    json: !!values.json,
+  };
+}
+
+function printText(results: ProcessResult[]) {
+  for (const r of results) {
+    const target = r.outputPath && r.outputPath !== r.inputPath ? ` -> ${r.outputPath}` : '';
+    const detail = r.status === 'success' ? r.removed?.join(', ') : r.message;
+    // 输出文件名冲突时在状态后注明覆盖或自动编号
+    const status = r.collision ? `${r.status}, ${r.collision}` : r.status;
+    const line = `[${status}] ${r.inputPath}${target}${detail ? `  (${detail})` : ''}`;
+    if (r.status === 'error') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+  const count = (status: ProcessResult['status']) =>
+    results.filter((r) => r.status === status).length;
+  console.log(
+    `共 ${results.length} 个文件：成功 ${count('success')}，残留 ${count('warning')}，跳过 ${count('skipped')}，失败 ${count('error')}`
+  );
+}
+
+async function runUndo(backupDir: string, json: boolean) {
+  const undo = await undoLatestBatch(backupDir);
+  if (json) {
+    console.log(JSON.stringify(undo, null, 2));
+  } else if (!undo) {
+    console.log(`${backupDir} 中没有可撤销的批次`);
+  } else {
+    for (const p of undo.restored) console.log(`[restored] ${p}`);
+    for (const f of undo.failed) console.error(`[error] ${f.path}  (${f.message})`);
+    console.log(`已撤销批次 ${undo.batchId}：还原 ${undo.restored.length} 个文件，失败 ${undo.failed.length}`);
+  }
+  return undo?.failed.length ? EXIT_PROCESS_ERROR : EXIT_OK;
+}
+
+export async function runCli(argv: string[]): Promise<number> {
+  let cli;
+  try {
+    cli = parseCli(argv);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      console.error(`info-remover: ${err.message}\n`);
+      console.error(USAGE);
+      return EXIT_USAGE;
+    }
+    throw err;
+  }
+  if (cli.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (cli.undo) {
+    return runUndo(cli.backupDir, cli.json);
+  }
+
+  for (const dir of cli.pluginDirs) {
+    // 加载失败的插件只给出提示，其余文件照常处理
+    for (const { file, message } of loadPlugins(dir).failed) {
+      console.error(`info-remover: 无法加载插件 ${file}：${message}`);
+    }
+  }
+
+  // 输出目录或备份目录位于待扫描的目录中时跳过它们
+  const items = await scanPaths(cli.paths, cli.scan, [cli.options.outputDir, cli.options.backupDir ?? '']);
+  // Ctrl+C 时中止当前文件并删除未写完的输出，而不是直接退出进程
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.once('SIGINT', onInterrupt);
+  const results = await processBatch(items, { ...cli.options, signal: controller.signal })
+    .finally(() => process.off('SIGINT', onInterrupt));
+
+  if (cli.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    printText(results);
+  }
+  if (controller.signal.aborted) return EXIT_CANCELLED;
+  if (results.some((r) => r.status === 'error')) return EXIT_PROCESS_ERROR;
+  if (results.some((r) => r.status === 'warning')) return EXIT_VERIFY_WARNING;
+  return EXIT_OK;
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code;
+    })
+    .catch((err) => {
+      console.error(err instanceof Error ? err.stack ?? err.message : err);
+      process.exitCode = EXIT_PROCESS_ERROR;
+    });
+}
@@ -0,0 +1,34 @@
+/**
+ * 文件类型可以识别，但无法在不改变格式的前提下清理元数据；
+ * 路由层据此返回 skipped 而不是静默转换格式
+ */
+export class UnsupportedFormatError extends Error {}
+
+/**
+ * 文件已加密且未提供密码，或提供的密码不正确。
+ * 路由层据此在结果中标注 reason，界面可提示用户输入密码后重试
+ */
+export class EncryptedFileError extends Error {
+  constructor(message: string, readonly wrongPassword = false) {
+    super(message);
+  }
+}
+
+/**
+ * 批处理被用户取消；路由层返回 skipped，批处理层随后删除未写完的输出文件
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('已取消');
+  }
+}
+
+/**
+ * 输出文件已存在且冲突策略为 error；批处理层返回 error 并标注 reason
+ */
+export class OutputExistsError extends Error {}
+
+/**
+ * 处理后无法重新读取输出文件的元数据，无法确认已清除；批处理层返回 error，覆盖模式下不替换原文件
+ */
+export class VerificationError extends Error {}
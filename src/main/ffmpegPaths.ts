@@ -0,0 +1,20 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegPath from 'ffmpeg-static';
+import ffprobePath from 'ffprobe-static';
+
+// 处理 ASAR 打包后的路径，如果是打包状态，需要指向 app.asar.unpacked 目录
+const fixPathForAsar = (p: string | null) => {
+  if (!p) return p;
+  return p.replace('app.asar', 'app.asar.unpacked');
+};
+
+/**
+ * 设置 ffmpeg / ffprobe 可执行文件路径；主进程与每个工作线程各需调用一次
+ */
+export function configureFfmpegPaths() {
+  const finalFfmpegPath = fixPathForAsar(ffmpegPath);
+  const finalFfprobePath = fixPathForAsar(ffprobePath ? ffprobePath.path : null);
+
+  if (finalFfmpegPath) ffmpeg.setFfmpegPath(finalFfmpegPath);
+  if (finalFfprobePath) ffmpeg.setFfprobePath(finalFfprobePath);
+}
@@ -1,5 +1,12 @@
 import fs from 'fs';
 import path from 'path';
+import { ProcessItem, ScanOptions, SymlinkPolicy } from './types';
+
+export const DEFAULT_SCAN_OPTIONS = {
+  exclude: ['node_modules', 'Thumbs.db', 'desktop.ini'],
+  includeHidden: false,
+  symlinks: 'follow' as SymlinkPolicy,
+};
 
 const isDirectory = async (p: string) => {
   try {
@@ -10,27 +17,113 @@ const isDirectory = async (p: string) => {
   }
 };
 
-async function walk(dir: string, acc: Set<string>) {
-  const entries = await fs.promises.readdir(dir);
-  for (const entry of entries) {
-    const full = path.join(dir, entry);
-    const stat = await fs.promises.stat(full);
-    if (stat.isDirectory()) {
-      await walk(full, acc);
-    } else if (stat.isFile()) {
-      acc.add(full);
+/**
+ * 将 glob 转为正则：* 不跨目录，** 匹配任意层目录，? 匹配单个字符，忽略大小写
+ */
+function globToRegExp(glob: string) {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      // "**/" 可以匹配零层目录
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
     }
   }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * 不含 / 的模式与文件或目录名比较，含 / 的模式与相对拖入文件夹的路径比较
+ */
+function compilePatterns(patterns: string[] | undefined) {
+  const compiled = (patterns ?? [])
+    .map((p) => p.trim().replace(/\\/g, '/').replace(/^\.\//, ''))
+    .filter(Boolean)
+    .map((p) => ({ byName: !p.includes('/'), regex: globToRegExp(p) }));
+  return (relative: string) => {
+    const name = relative.slice(relative.lastIndexOf('/') + 1);
+    return compiled.some(({ byName, regex }) => regex.test(byName ? name : relative));
+  };
 }
 
-export async function scanPaths(paths: string[]): Promise<string[]> {
-  const files = new Set<string>();
+const normalize = (p: string) => {
+  const resolved = path.resolve(p);
+  return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+};
+
+/**
+ * 展开拖入的文件与文件夹；文件夹中的文件记录所属的拖入文件夹，
+ * 同一文件出现多次时以第一次为准。
+ * 过滤规则只作用于文件夹中的内容，直接拖入的文件总是保留；
+ * 文件夹中的 excludeDirs 目录（输出目录、备份目录）不会被扫描
+ */
+export async function scanPaths(
+  paths: string[],
+  options: ScanOptions = {},
+  excludeDirs: string[] = []
+): Promise<ProcessItem[]> {
+  const isIncluded = compilePatterns(options.include);
+  const hasInclude = (options.include ?? []).some((p) => p.trim());
+  const isExcluded = compilePatterns(options.exclude ?? DEFAULT_SCAN_OPTIONS.exclude);
+  const includeHidden = options.includeHidden ?? DEFAULT_SCAN_OPTIONS.includeHidden;
+  const symlinks = options.symlinks ?? DEFAULT_SCAN_OPTIONS.symlinks;
+  const maxDepth = options.maxDepth ?? Infinity;
+  const skippedDirs = new Set(
+    await Promise.all(excludeDirs.filter(Boolean).map((d) => fs.promises.realpath(d).then(normalize, () => normalize(d))))
+  );
+  const items = new Map<string, ProcessItem>();
+
+  // 已进入过的目录（真实路径），用于在跟随符号链接时发现循环
+  const visited = new Set<string>();
+
+  const walk = async (root: string, dir: string, depth: number, viaLink: boolean) => {
+    const real = normalize(await fs.promises.realpath(dir));
+    if (visited.has(real) || (depth > 0 && skippedDirs.has(real))) return;
+    visited.add(real);
+
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!includeHidden && entry.name.startsWith('.')) continue;
+      const full = path.join(dir, entry.name);
+      const relative = path.relative(root, full).split(path.sep).join('/');
+      if (isExcluded(relative)) continue;
+
+      let isLink = entry.isSymbolicLink();
+      let isDir = entry.isDirectory();
+      let isFile = entry.isFile();
+      if (isLink) {
+        // follow-once 只跟随拖入文件夹中的链接，不再跟随链接目标里的链接
+        if (symlinks === 'skip' || (symlinks === 'follow-once' && viaLink)) continue;
+        try {
+          const stat = await fs.promises.stat(full);
+          isDir = stat.isDirectory();
+          isFile = stat.isFile();
+        } catch {
+          continue; // 失效的链接
+        }
+      }
+
+      if (isDir) {
+        if (depth < maxDepth) await walk(root, full, depth + 1, viaLink || isLink);
+      } else if (isFile && (!hasInclude || isIncluded(relative)) && !items.has(full)) {
+        items.set(full, { path: full, root });
+      }
+    }
+  };
+
   for (const p of paths) {
     if (await isDirectory(p)) {
-      await walk(p, files);
-    } else {
-      files.add(p);
+      await walk(p, p, 0, false);
+    } else if (!items.has(p)) {
+      items.set(p, { path: p });
     }
   }
-  return Array.from(files);
+  return Array.from(items.values());
 }
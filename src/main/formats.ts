@@ -0,0 +1,271 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { fileTypeFromBuffer, fileTypeFromFile } from 'file-type';
+import { CompoundFile, isCompoundFile } from './processors/compoundFile';
+import { MetadataProcessor, getProcessor, listProcessors } from './processorRegistry';
+
+// 按内容识别文件格式并找到负责的处理器（见 processorRegistry）。
+// 识别以文件头为先，ZIP 与复合文档再按内部结构区分具体格式，文件头无法识别时才回退到扩展名
+
+// 同一格式的不同写法，file-type 给出的扩展名也按此归一
+const EXT_ALIASES: Record<string, string> = {
+  '.jpeg': '.jpg',
+  '.tif': '.tiff',
+  '.heif': '.heic',
+  '.tgz': '.tar.gz',
+};
+
+const LEGACY_OFFICE_EXTS = new Set(['.doc', '.xls', '.ppt']);
+const OOXML_EXTS = new Set(['.docx', '.docm', '.xlsx', '.xlsm', '.pptx', '.pptm']);
+
+// [Content_Types].xml 中主文档部件的类型 -> 扩展名，启用宏的类型需先于普通类型判断
+const OOXML_MAIN_PARTS: Array<[RegExp, string]> = [
+  [/application\/vnd\.ms-word\.(document|template)\.macroEnabled/i, '.docm'],
+  [/wordprocessingml\.(document|template)\.main\+xml/i, '.docx'],
+  [/application\/vnd\.ms-excel\.(sheet|template)\.macroEnabled/i, '.xlsm'],
+  [/spreadsheetml\.(sheet|template)\.main\+xml/i, '.xlsx'],
+  [/application\/vnd\.ms-powerpoint\.(presentation|slideshow|template)\.macroEnabled/i, '.pptm'],
+  [/presentationml\.(presentation|slideshow|template)\.main\+xml/i, '.pptx'],
+];
+
+// 复合文档中各旧版 Office 格式的主数据流
+const LEGACY_OFFICE_STREAMS: Array<[string, string]> = [
+  ['WordDocument', '.doc'],
+  ['Workbook', '.xls'],
+  ['Book', '.xls'],
+  ['PowerPoint Document', '.ppt'],
+];
+
+export interface DetectedFormat {
+  // 处理器类型，不支持时为 null
+  type: string | null;
+  // 处理器声明的分类，不支持时为 other
+  category: string;
+  // 按内容确定的扩展名：与文件名一致时沿用文件名的扩展名
+  ext: string;
+  mime?: string;
+}
+
+/**
+ * 小写扩展名，.tar.gz 视为一个整体
+ */
+export function extensionOf(name: string) {
+  const lower = name.toLowerCase();
+  return lower.endsWith('.tar.gz') ? '.tar.gz' : path.extname(lower);
+}
+
+export const isLegacyOfficeExt = (ext: string) => LEGACY_OFFICE_EXTS.has(ext);
+
+/** 由 [Content_Types].xml 判断 OOXML 文档的扩展名，不是 Word/Excel/PowerPoint 文档时返回 null */
+export function ooxmlExtension(contentTypes: string) {
+  return OOXML_MAIN_PARTS.find(([pattern]) => pattern.test(contentTypes))?.[1] ?? null;
+}
+
+// 随机读取文件或内存中的数据，ZIP 只需读取目录与少量条目
+interface ByteSource {
+  size: number;
+  read(offset: number, length: number): Promise<Buffer>;
+}
+
+const bufferSource = (data: Buffer): ByteSource => ({
+  size: data.length,
+  read: async (offset, length) => data.subarray(offset, offset + length),
+});
+
+// 交给自定义识别的文件开头字节数
+const SNIFF_LENGTH = 4100;
+
+// 只读取识别所需的小文件条目，超过此大小视为无法识别
+const MAX_SNIFFED_ENTRY = 1024 * 1024;
+
+/**
+ * 读取 ZIP 中央目录，取出 [Content_Types].xml 与 mimetype 条目的内容；
+ * 不是 ZIP、为 ZIP64 或结构损坏时返回 null
+ */
+async function readZipMarkers(source: ByteSource) {
+  const tailLength = Math.min(source.size, 22 + 0xffff);
+  const tail = await source.read(source.size - tailLength, tailLength);
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+  const cdSize = tail.readUInt32LE(eocd + 12);
+  const cdOffset = tail.readUInt32LE(eocd + 16);
+  if (cdOffset === 0xffffffff || cdOffset + cdSize > source.size) return null;
+
+  const directory = await source.read(cdOffset, cdSize);
+  const markers: { contentTypes?: string; mimetype?: string } = {};
+  for (let pos = 0; pos + 46 <= directory.length && directory.readUInt32LE(pos) === 0x02014b50;) {
+    const method = directory.readUInt16LE(pos + 10);
+    const compressedSize = directory.readUInt32LE(pos + 20);
+    const nameLength = directory.readUInt16LE(pos + 28);
+    const extraLength = directory.readUInt16LE(pos + 30);
+    const commentLength = directory.readUInt16LE(pos + 32);
+    const localOffset = directory.readUInt32LE(pos + 42);
+    const name = directory.toString('utf8', pos + 46, pos + 46 + nameLength);
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    const key = name === '[Content_Types].xml' ? 'contentTypes' : name === 'mimetype' ? 'mimetype' : null;
+    if (!key || compressedSize > MAX_SNIFFED_ENTRY || (method !== 0 && method !== 8)) continue;
+    const local = await source.read(localOffset, 30);
+    if (local.length < 30 || local.readUInt32LE(0) !== 0x04034b50) continue;
+    const dataStart = localOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+    const raw = await source.read(dataStart, compressedSize);
+    try {
+      markers[key] = (method === 8 ? zlib.inflateRawSync(raw) : raw).toString('utf8');
+    } catch {
+      // 条目损坏时按普通 ZIP 处理
+    }
+  }
+  return markers;
+}
+
+/** gzip 压缩的内容是否为 tar：解压开头部分并检查 ustar 标记 */
+function isGzippedTar(head: Buffer) {
+  try {
+    const data = zlib.gunzipSync(head, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    return data.length >= 262 && data.toString('latin1', 257, 262) === 'ustar';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 按复合文档中的数据流判断具体格式：加密的 OOXML 或旧版 Office，其余复合文档返回 null
+ */
+function classifyCompoundFile(data: Buffer, fileExt: string) {
+  let cfb: CompoundFile;
+  try {
+    cfb = new CompoundFile(Buffer.from(data));
+  } catch {
+    return null;
+  }
+  // 加密 OOXML 在解密前无法得知是哪种文档，文件名不是 OOXML 扩展名时按 Word 处理，解密后再按内容区分
+  if (cfb.find('EncryptionInfo') && cfb.find('EncryptedPackage')) {
+    return OOXML_EXTS.has(fileExt) ? fileExt : '.docx';
+  }
+  return LEGACY_OFFICE_STREAMS.find(([stream]) => cfb.find(stream))?.[1] ?? null;
+}
+
+// 按容器结构识别出的格式固定交给对应的内置处理器
+const byType = (type: string) => getProcessor(type)!;
+
+const matchesMime = (format: MetadataProcessor, mime: string) =>
+  (format.mimes ?? []).some((m) => (m.endsWith('/') || m.endsWith('.') ? mime.startsWith(m) : mime === m));
+
+/**
+ * 内容与文件名的扩展名不一致时以内容为准（如改名为 .mp3 的 FLAC），
+ * 只是写法不同（.jpeg 与 .jpg）时沿用文件名
+ */
+function result(format: MetadataProcessor, fileExt: string, contentExt: string | undefined, mime?: string): DetectedFormat {
+  const detected = contentExt && (EXT_ALIASES[contentExt] ?? contentExt);
+  const sameAsFile = detected === (EXT_ALIASES[fileExt] ?? fileExt);
+  const ext = detected && format.exts.includes(detected) && !sameAsFile
+    ? detected
+    : format.exts.includes(fileExt) ? fileExt : format.exts[0];
+  return { type: format.type, category: format.category, ext, mime };
+}
+
+const unsupported = (fileExt: string, mime?: string): DetectedFormat => ({
+  type: null,
+  category: 'other',
+  ext: fileExt,
+  mime,
+});
+
+/**
+ * 综合文件头与容器结构识别格式。
+ * readAll 只在遇到复合文档时调用，用于读取完整的目录结构
+ */
+async function identify(
+  fileExt: string,
+  sniffed: { mime: string; ext: string } | undefined,
+  source: ByteSource,
+  readAll: () => Promise<Buffer>
+): Promise<DetectedFormat> {
+  // 插件的自定义识别优先
+  const head = await source.read(0, SNIFF_LENGTH);
+  for (const processor of listProcessors()) {
+    if (processor.detect && (await processor.detect(head, { ext: fileExt, mime: sniffed?.mime }))) {
+      return result(processor, fileExt, sniffed && `.${sniffed.ext}`, sniffed?.mime);
+    }
+  }
+  if (!sniffed) {
+    // 文件头无法识别（如部分 MP3、纯文本），只能相信扩展名
+    const format = listProcessors().find((f) => f.exts.includes(fileExt));
+    return format ? result(format, fileExt, undefined) : unsupported(fileExt);
+  }
+  const { mime } = sniffed;
+  const contentExt = `.${sniffed.ext}`;
+
+  // OOXML、ODF、EPUB 都是 ZIP，自行读取标记条目判断，不依赖 file-type 对 ZIP 内容的推测
+  if (mime === 'application/zip' || mime === 'application/epub+zip' || mime.startsWith('application/vnd.')) {
+    const markers = await readZipMarkers(source);
+    if (markers) {
+      const ooxmlExt = markers.contentTypes ? ooxmlExtension(markers.contentTypes) : null;
+      if (ooxmlExt) return result(byType('office'), fileExt, ooxmlExt, mime);
+      const mimetype = markers.mimetype?.trim();
+      if (mimetype === 'application/epub+zip') return result(byType('epub'), fileExt, '.epub', mimetype);
+      if (mimetype?.startsWith('application/vnd.oasis.opendocument.')) {
+        const odfExt = { text: '.odt', spreadsheet: '.ods', presentation: '.odp' }[mimetype.split('.').pop() ?? ''];
+        return result(byType('odf'), fileExt, odfExt, mimetype);
+      }
+      // APK 等基于 ZIP 的其他格式带有签名，不作为普通压缩包改写
+      if (mime === 'application/zip') return result(byType('zip'), fileExt, '.zip', mime);
+    }
+  }
+  if (mime === 'application/x-cfb') {
+    const data = await readAll();
+    // 找不到已知数据流时，旧版 Office 扩展名的文件仍按通用复合文档清理摘要信息
+    const officeExt = (isCompoundFile(data) ? classifyCompoundFile(data, fileExt) : null)
+      ?? (isLegacyOfficeExt(fileExt) ? fileExt : null);
+    return officeExt ? result(byType('office'), fileExt, officeExt, mime) : unsupported(fileExt, mime);
+  }
+  if (mime === 'application/gzip') {
+    const head = await source.read(0, 64 * 1024);
+    return isGzippedTar(head) ? result(byType('tar'), fileExt, '.tar.gz', mime) : unsupported(fileExt, mime);
+  }
+  // TIFF 结构的 RAW 可能被识别为普通 TIFF
+  if (mime === 'image/tiff' && byType('raw').exts.includes(fileExt)) {
+    return result(byType('raw'), fileExt, undefined, mime);
+  }
+  const format = listProcessors().find((f) => matchesMime(f, mime));
+  return format ? result(format, fileExt, contentExt, mime) : unsupported(fileExt, mime);
+}
+
+/**
+ * 识别磁盘上文件的格式
+ */
+export async function detectFormat(filePath: string): Promise<DetectedFormat> {
+  const fileExt = extensionOf(path.basename(filePath));
+  const sniffed = await fileTypeFromFile(filePath);
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const source: ByteSource = {
+      size,
+      read: async (offset, length) => {
+        const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+        return buffer.subarray(0, bytesRead);
+      },
+    };
+    return await identify(fileExt, sniffed, source, () => fs.promises.readFile(filePath));
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 识别内存中数据（如压缩包条目）的格式，name 为条目名
+ */
+export async function detectFormatFromBuffer(name: string, data: Buffer): Promise<DetectedFormat> {
+  const fileExt = extensionOf(path.posix.basename(name));
+  const sniffed = await fileTypeFromBuffer(data);
+  return identify(fileExt, sniffed, bufferSource(data), async () => data);
+}
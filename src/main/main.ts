@@ -1,39 +1,35 @@
 import { app, BrowserWindow, ipcMain, dialog, shell } from "electron";
 import path from "path";
 import fs from "fs";
-import { scanPaths } from "./fileScanner";
-import { processByType } from "./processorRouter";
-import { resolvePaths } from "./outputStrategy";
+import { DEFAULT_SCAN_OPTIONS, scanPaths } from "./fileScanner";
+import { previewScan } from "./scanPreview";
+import { processBatch } from "./batchProcessor";
 import {
   ProcessItem,
   ProcessOptions,
-  ProcessResult,
   AppConfig,
-  FileDetailedInfo,
+  ScanResult,
+  BackupBatchInfo,
+  ScanOptions,
+  MetadataProfile,
+  ProcessorInfo,
 } from "./types";
-import { PDFDocument } from "pdf-lib";
-import JSZip from "jszip";
-import sharp from "sharp";
-import exifReader from "exif-reader";
-import ffmpeg from "fluent-ffmpeg";
-import ffmpegPath from "ffmpeg-static";
-import ffprobePath from "ffprobe-static";
-
-// 处理 ASAR 打包后的路径，如果是打包状态，需要指向 app.asar.unpacked 目录
-const fixPathForAsar = (p: string | null) => {
-  if (!p) return p;
-  return p.replace("app.asar", "app.asar.unpacked");
-};
-
-const finalFfmpegPath = fixPathForAsar(ffmpegPath);
-const finalFfprobePath = fixPathForAsar(ffprobePath ? ffprobePath.path : null);
+import { getDetailedMetadata } from "./metadataInspector";
+import { detectFormat } from "./formats";
+import { describeProcessors, loadPlugins } from "./processorRegistry";
+import { listProfiles } from "./profiles";
+import { configureFfmpegPaths } from "./ffmpegPaths";
+import { latestJournal, undoLatestBatch } from "./backupStore";
 
-if (finalFfmpegPath) ffmpeg.setFfmpegPath(finalFfmpegPath);
-if (finalFfprobePath) ffmpeg.setFfprobePath(finalFfprobePath);
+configureFfmpegPaths();
 
 const isDev = !!process.env.VITE_DEV_SERVER_URL;
 
 const CONFIG_FILE = path.join(app.getPath("userData"), "config.json");
+// 覆盖模式默认的备份目录，可在设置中改为其他位置
+const DEFAULT_BACKUP_DIR = path.join(app.getPath("userData"), "backups");
+// 额外处理器的插件目录，启动时加载其中的 .js 文件
+const PLUGIN_DIR = path.join(app.getPath("userData"), "plugins");
 
 const loadConfig = (): AppConfig => {
   try {
@@ -55,141 +51,6 @@ const saveConfig = (config: AppConfig) => {
   }
 };
 
-const getDetailedMetadata = async (
-  filePath: string,
-  ext: string
-): Promise<FileDetailedInfo["metadata"]> => {
-  const metadata: FileDetailedInfo["metadata"] = {};
-  try {
-    if (ext.match(/\.(jpe?g|png|webp|tiff|gif|avif|heif)$/i)) {
-      const sharpMeta = await sharp(filePath).metadata();
-      metadata.width = sharpMeta.width;
-      metadata.height = sharpMeta.height;
-      metadata.format = sharpMeta.format;
-      metadata.hasExif = !!sharpMeta.exif;
-      if (sharpMeta.exif) {
-        try {
-          const exif = exifReader(sharpMeta.exif);
-          // 提取有意义的 EXIF 数据，过滤掉 Buffer 等不可直接展示的内容
-          const cleanExif: Record<string, any> = {};
-          const processSection = (section: any) => {
-            if (!section) return;
-            for (const [key, value] of Object.entries(section)) {
-              if (
-                typeof value === "string" ||
-                typeof value === "number" ||
-                typeof value === "boolean"
-              ) {
-                cleanExif[key] = value;
-              } else if (value instanceof Date) {
-                cleanExif[key] = value.toLocaleString();
-              }
-            }
-          };
-          processSection((exif as any).Image);
-          processSection((exif as any).Exif);
-          processSection((exif as any).GPS);
-          metadata.exifData = cleanExif;
-        } catch (e) {
-          console.error("EXIF parse error", e);
-        }
-      }
-    } else if (ext.match(/\.(docx|xlsx|pptx)$/i)) {
-      const buffer = await fs.promises.readFile(filePath);
-      try {
-        const zip = await JSZip.loadAsync(buffer);
-        metadata.fileCount = Object.keys(zip.files).length;
-
-        const coreXml = zip.file("docProps/core.xml");
-        if (coreXml) {
-          const text = await coreXml.async("string");
-          metadata.title = text.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1];
-          metadata.author = text.match(
-            /<dc:creator>([\s\S]*?)<\/dc:creator>/
-          )?.[1];
-          metadata.lastModifiedBy = text.match(
-            /<cp:lastModifiedBy>([\s\S]*?)<\/cp:lastModifiedBy>/
-          )?.[1];
-          metadata.creationDate = text.match(
-            /<dcterms:created[^>]*>([\s\S]*?)<\/dcterms:created>/
-          )?.[1];
-        }
-      } catch (e) {
-        console.error("Failed to parse OOXML metadata:", e);
-      }
-    } else if (ext.match(/\.(doc|xls|ppt)$/i)) {
-      // 旧版格式暂不支持提取详细元数据，仅标记分类
-      metadata.mime = "application/x-ole-storage";
-    } else if (ext.toLowerCase() === ".pdf") {
-      const data = await fs.promises.readFile(filePath);
-      const pdfDoc = await PDFDocument.load(data, {
-        updateMetadata: false,
-        ignoreEncryption: true,
-      });
-      metadata.title = pdfDoc.getTitle();
-      metadata.author = pdfDoc.getAuthor();
-      metadata.creator = pdfDoc.getCreator();
-      metadata.pageCount = pdfDoc.getPageCount();
-    } else if (ext.toLowerCase() === ".zip") {
-      const data = await fs.promises.readFile(filePath);
-      const zip = await JSZip.loadAsync(data);
-      metadata.fileCount = Object.keys(zip.files).length;
-    } else if (ext.match(/\.(mp4|mkv|mov|avi|wmv|flv|webm)$/i)) {
-      await new Promise<void>((resolve) => {
-        ffmpeg.ffprobe(filePath, (err, data) => {
-          if (!err && data) {
-            metadata.duration = data.format.duration;
-            metadata.bitrate = data.format.bit_rate
-              ? Number(data.format.bit_rate)
-              : undefined;
-            metadata.encoder = data.format.tags?.encoder
-              ? String(data.format.tags.encoder)
-              : undefined;
-            metadata.title = data.format.tags?.title
-              ? String(data.format.tags.title)
-              : undefined;
-            metadata.author =
-              data.format.tags?.artist || data.format.tags?.author
-                ? String(data.format.tags.artist || data.format.tags.author)
-                : undefined;
-            metadata.creationDate = data.format.tags?.creation_time
-              ? String(data.format.tags.creation_time)
-              : undefined;
-
-            const videoStream = data.streams.find(
-              (s) => s.codec_type === "video"
-            );
-            if (videoStream) {
-              metadata.videoCodec = videoStream.codec_name;
-              metadata.width = videoStream.width;
-              metadata.height = videoStream.height;
-            }
-            const audioStream = data.streams.find(
-              (s) => s.codec_type === "audio"
-            );
-            if (audioStream) {
-              metadata.audioCodec = audioStream.codec_name;
-            }
-          }
-          resolve();
-        });
-      });
-    }
-  } catch (err) {
-    console.error("Error extracting metadata:", err);
-  }
-  return metadata;
-};
-
-const getCategory = (ext: string): FileDetailedInfo["category"] => {
-  if (ext.match(/\.(jpe?g|png|webp|tiff|gif|avif|heif)$/i)) return "image";
-  if (ext.match(/\.(docx|xlsx|pptx|doc|xls|ppt)$/i)) return "office";
-  if (ext.toLowerCase() === ".pdf") return "pdf";
-  if (ext.toLowerCase() === ".zip") return "zip";
-  if (ext.match(/\.(mp4|mkv|mov|avi|wmv|flv|webm)$/i)) return "video";
-  return "other";
-};
-
 // 允许从 file:// 来源访问，便于拖拽时拿到路径
 app.commandLine.appendSwitch("allow-file-access-from-files");
 app.commandLine.appendSwitch("disable-site-isolation-trials");
@@ -244,6 +105,10 @@ const createWindow = async () => {
 };
 
 app.whenReady().then(() => {
+  const plugins = loadPlugins(PLUGIN_DIR);
+  for (const { file, message } of plugins.failed) {
+    console.error(`Failed to load plugin ${file}:`, message);
+  }
   createWindow();
 
   app.on("activate", () => {
@@ -287,13 +152,31 @@ ipcMain.handle("dialog:openFile", async () => {
   return result.filePaths[0];
 });
 
-ipcMain.handle("scan-paths", async (_event, payload: { paths: string[] }) => {
-  const files = await scanPaths(payload.paths);
-  return { files };
+// 扫描并预览文件：profile 为当前的保留配置，允许保留的元数据不计为可删除
+ipcMain.handle("scan-paths", async (
+  _event,
+  payload: { paths: string[]; options?: ScanOptions; profile?: MetadataProfile }
+): Promise<ScanResult> => {
+  // 文件夹中的输出目录与备份目录不参与扫描，避免重复处理已清理的文件
+  const config = loadConfig();
+  const excludeDirs = config.overwriteSource
+    ? [config.backupDir || DEFAULT_BACKUP_DIR]
+    : [config.outputDir];
+  const items = await scanPaths(payload.paths, payload.options, excludeDirs);
+  return previewScan(items, { profile: payload.profile });
 });
 
 ipcMain.handle("get-config", async () => {
-  return loadConfig();
+  const config = loadConfig();
+  return { ...config, scan: { ...DEFAULT_SCAN_OPTIONS, ...config.scan } };
+});
+
+ipcMain.handle("get-profiles", async () => {
+  return listProfiles(loadConfig().profiles);
+});
+
+ipcMain.handle("get-processors", async (): Promise<ProcessorInfo[]> => {
+  return describeProcessors();
 });
 
 ipcMain.handle("set-config", async (_event, config: AppConfig) => {
@@ -316,14 +199,15 @@ ipcMain.handle("clear-directory", async (_event, dirPath: string) => {
   }
 });
 
-ipcMain.handle("get-file-info", async (_event, filePath: string) => {
+// 读取文件信息：元数据清单中按 profile 标记处理时会删除的项
+ipcMain.handle("get-file-info", async (_event, filePath: string, profile?: MetadataProfile) => {
   try {
     if (!fs.existsSync(filePath)) {
       return { path: filePath, exists: false, category: "other" };
     }
     const stat = await fs.promises.stat(filePath);
-    const ext = path.extname(filePath);
-    const metadata = await getDetailedMetadata(filePath, ext);
+    const format = await detectFormat(filePath);
+    const metadata = await getDetailedMetadata(filePath, format, undefined, profile);
 
     return {
       name: path.basename(filePath),
@@ -331,7 +215,7 @@ ipcMain.handle("get-file-info", async (_event, filePath: string) => {
       size: stat.size,
       mtime: stat.mtimeMs,
       exists: true,
-      category: getCategory(ext),
+      category: format.category,
       metadata,
     };
   } catch (err) {
@@ -351,64 +235,50 @@ ipcMain.handle("open-directory", async (_event, dirPath: string) => {
   }
 });
 
+// 当前正在执行的批次，同一时间只允许一个
+let activeBatch: AbortController | null = null;
+
 ipcMain.handle("process-files",
   async (
-    _event,
+    event,
     payload: { items: ProcessItem[]; options: ProcessOptions }
   ) => {
+    if (activeBatch) throw new Error("已有文件正在处理，请完成或取消后再开始新的处理");
     const { items, options } = payload;
-    const results: ProcessResult[] = [];
-
-    for (const item of items) {
-      if (!item?.path) {
-        results.push({
-          inputPath: "",
-          status: "error",
-          message: "无效的文件路径",
-        });
-        continue;
-      }
-      try {
-        const { outputPath, backupPath } = await resolvePaths(
-          item.path,
-          options
-        );
-        const stat = await fs.promises.stat(item.path);
-
-        if (backupPath) {
-          await fs.promises.copyFile(item.path, backupPath);
-        }
-
-        const result = await processByType(item.path, outputPath);
-        if (result.status === "success") {
-          // 保持文件系统时间戳
-          await fs.promises.utimes(outputPath, stat.atime, stat.mtime);
-
-          if (options.overwriteSource) {
-            // 如果是覆盖模式，将临时文件重命名回原文件
-            await fs.promises.rename(outputPath, item.path);
-            result.outputPath = item.path; // 更新输出路径为原路径
-          }
-        }
-        results.push(result);
-      } catch (err) {
-        // 如果出错且在覆盖模式下，尝试清理临时文件
-        try {
-          const { outputPath } = await resolvePaths(item.path, options);
-          if (options.overwriteSource && fs.existsSync(outputPath)) {
-            await fs.promises.unlink(outputPath);
-          }
-        } catch (e) {
-          // ignore
+    const controller = new AbortController();
+    activeBatch = controller;
+    const backupDir = options.overwriteSource ? options.backupDir || DEFAULT_BACKUP_DIR : undefined;
+    try {
+      return await processBatch(
+        items,
+        { ...options, backupDir, signal: controller.signal },
+        (progress) => {
+          if (!event.sender.isDestroyed()) event.sender.send("process-progress", progress);
         }
-        results.push({
-          inputPath: item.path,
-          status: "error",
-          message: err instanceof Error ? err.message : "处理失败",
-        });
-      }
+      );
+    } finally {
+      if (activeBatch === controller) activeBatch = null;
     }
-
-    return results;
   }
 );
+
+ipcMain.handle("cancel-processing", () => {
+  if (!activeBatch) return false;
+  activeBatch.abort();
+  return true;
+});
+
+const backupStoreDir = () => loadConfig().backupDir || DEFAULT_BACKUP_DIR;
+
+// 最近一个可撤销的覆盖批次，界面据此决定是否显示撤销按钮
+ipcMain.handle("get-last-batch", async (): Promise<BackupBatchInfo | null> => {
+  const latest = await latestJournal(backupStoreDir());
+  if (!latest) return null;
+  const { id, createdAt, entries } = latest.journal;
+  return { id, createdAt, count: entries.length };
+});
+
+ipcMain.handle("undo-last-batch", async () => {
+  if (activeBatch) throw new Error("正在处理文件，请完成或取消后再撤销");
+  return undoLatestBatch(backupStoreDir());
+});
@@ -0,0 +1,556 @@
+import fs from "fs";
+import { PDFDocument, PDFName, PDFRawStream, decodePDFRawStream } from "pdf-lib";
+import JSZip from "jszip";
+import sharp from "sharp";
+import exifReader from "exif-reader";
+import ffmpeg from "fluent-ffmpeg";
+import { readOleSummary } from "./processors/legacyOfficeProcessor";
+import { KEEPABLE_EXIF_TAGS } from "./processors/exifWriter";
+import { KEEPABLE_CORE_FIELDS } from "./processors/officeProcessor";
+import { KEEPABLE_META_FIELDS } from "./processors/odfProcessor";
+import { KEEPABLE_MEDIA_TAGS } from "./processors/mediaTags";
+import { countTarEntries } from "./processors/tarProcessor";
+import { countSevenZipEntries } from "./processors/sevenZipProcessor";
+import { NORMALIZED_MODIFIED, findOpfPath } from "./processors/epubProcessor";
+import { findPdfActiveContent } from "./processors/pdfProcessor";
+import { decryptPdf, isEncryptedPdf } from "./processors/pdfEncryption";
+import { decryptOffice, isEncryptedOffice } from "./processors/officeEncryption";
+import { readRawPrivacyTags } from "./processors/rawProcessor";
+import { DetectedFormat, isLegacyOfficeExt } from "./formats";
+import { getProcessor } from "./processorRegistry";
+import { addEntries, annotateEntries, iptcFields, xmlFields } from "./metadataInventory";
+import { MetadataKey } from "./profiles";
+import { STRUCTURAL_FORMAT_TAGS } from "./outputVerifier";
+import { FileMetadata, MetadataEntry, MetadataProfile } from "./types";
+
+// 文件结构信息（尺寸、时长、页数等）的命名空间，这些条目不会被删除
+const FORMAT_INFO = "格式信息";
+
+const toProfileKeys = (fields: Array<[MetadataKey, string]>): Record<string, MetadataKey> =>
+  Object.fromEntries(fields.map(([key, name]) => [name, key]));
+
+// 写出 EXIF 时 libvips 自动附带的结构字段，以及处理时总会写回的方向，不属于隐私信息
+const STRUCTURAL_EXIF_TAGS = new Set([
+  "Orientation",
+  "XResolution",
+  "YResolution",
+  "ResolutionUnit",
+  "YCbCrPositioning",
+  "ExifTag",
+  "ExifVersion",
+  "ComponentsConfiguration",
+  "FlashpixVersion",
+  "ColorSpace",
+  "PixelXDimension",
+  "PixelYDimension",
+]);
+
+const EXIF_PROFILE_KEYS = Object.fromEntries(
+  KEEPABLE_EXIF_TAGS.map(([key, , name]) => [name, key])
+) as Record<string, MetadataKey>;
+
+const PDF_INFO_PROFILE_KEYS: Record<string, MetadataKey> = {
+  Title: "document.title",
+  Author: "document.author",
+  Subject: "document.subject",
+  Keywords: "document.keywords",
+  Creator: "document.application",
+  Producer: "document.application",
+};
+
+const OLE_SUMMARY_PROFILE_KEYS: Record<string, MetadataKey> = {
+  Title: "document.title",
+  Subject: "document.subject",
+  Keywords: "document.keywords",
+  Author: "document.author",
+};
+
+// EPUB 处理时删除或改写的 OPF 字段，其余字段（书名、语言、出版社等）属于内容本身
+const EPUB_REMOVED_FIELDS: Record<string, MetadataKey | undefined> = {
+  "dc:creator": "document.author",
+  "dc:contributor": "document.author",
+  "dc:date": undefined,
+  "dc:identifier": undefined,
+};
+
+// ffprobe 的 format_name 对应的标签格式
+const AUDIO_TAG_NAMESPACES: Array<[RegExp, string]> = [
+  [/^mp3$/, "ID3"],
+  [/flac|ogg/, "Vorbis 注释"],
+  [/mp4|m4a|mov/, "iTunes"],
+  [/wav/, "RIFF INFO"],
+];
+
+const mediaTagProfileKeys = (tags: Record<string, string>) =>
+  Object.fromEntries(
+    Object.keys(tags)
+      .filter((k) => KEEPABLE_MEDIA_TAGS[k.toLowerCase()])
+      .map((k) => [k, KEEPABLE_MEDIA_TAGS[k.toLowerCase()]])
+  );
+
+// 容器中的结构字段（major_brand 等）由 muxer 重新写入，不计为可删除的元数据
+const addMediaTags = (entries: MetadataEntry[], namespace: string, tags: Record<string, string>) => {
+  const isStructural = ([k]: [string, string]) => STRUCTURAL_FORMAT_TAGS.has(k.toLowerCase());
+  addEntries(entries, namespace, Object.entries(tags).filter((t) => !isStructural(t)), {
+    profileKeys: mediaTagProfileKeys(tags),
+  });
+  addEntries(entries, FORMAT_INFO, Object.entries(tags).filter(isStructural), { structural: true });
+};
+
+// exif-reader 的数值数组（如 GPS 度分秒）与日期转为可展示的文本，Buffer 等二进制值跳过
+const exifValue = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString().slice(0, 19).replace("T", " ");
+  if (Array.isArray(value) && value.every((v) => typeof v === "number")) return value.join(", ");
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value;
+  return undefined;
+};
+
+// RAW 只列出处理器会清空的隐私标签
+export const inspectRaw = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const tags = readRawPrivacyTags(await fs.promises.readFile(filePath));
+  metadata.hasExif = Object.keys(tags).length > 0;
+  metadata.entries = [];
+  addEntries(metadata.entries, "EXIF", tags, { profileKeys: EXIF_PROFILE_KEYS });
+  return metadata;
+};
+
+export const inspectImage = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const entries: MetadataEntry[] = [];
+  metadata.entries = entries;
+  const sharpMeta = await sharp(filePath).metadata();
+  metadata.width = sharpMeta.width;
+  metadata.height = sharpMeta.height;
+  metadata.format = sharpMeta.format;
+  metadata.hasExif = !!sharpMeta.exif;
+  metadata.hasXmp = !!sharpMeta.xmp;
+  metadata.hasIptc = !!sharpMeta.iptc;
+  addEntries(entries, FORMAT_INFO, {
+    格式: sharpMeta.format,
+    尺寸: sharpMeta.width && sharpMeta.height ? `${sharpMeta.width} × ${sharpMeta.height}` : undefined,
+  }, { structural: true });
+  if (sharpMeta.exif) {
+    try {
+      const exif = exifReader(sharpMeta.exif);
+      for (const section of ["Image", "Photo", "GPSInfo", "Iop"] as const) {
+        const namespace = section === "GPSInfo" ? "EXIF GPS" : "EXIF";
+        const values = Object.entries(exif[section] ?? {}).map(([k, v]): [string, unknown] => [k, exifValue(v)]);
+        addEntries(entries, namespace, values.filter(([k]) => !STRUCTURAL_EXIF_TAGS.has(k)), {
+          profileKeys: EXIF_PROFILE_KEYS,
+        });
+        addEntries(entries, namespace, values.filter(([k]) => STRUCTURAL_EXIF_TAGS.has(k)), { structural: true });
+      }
+    } catch (e) {
+      console.error("EXIF parse error", e);
+      metadata.readFailed = true;
+    }
+  }
+  if (sharpMeta.xmp) addEntries(entries, "XMP", xmlFields(sharpMeta.xmp.toString("utf8")));
+  if (sharpMeta.iptc) addEntries(entries, "IPTC", iptcFields(sharpMeta.iptc));
+  if (sharpMeta.icc) {
+    // ICC 决定像素颜色的解释方式，清理时保留
+    addEntries(entries, "ICC", { 色彩配置: `${sharpMeta.icc.length} 字节` }, { structural: true });
+  }
+  return metadata;
+};
+
+const inspectOoxml = async (filePath: string, password?: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const entries: MetadataEntry[] = [];
+  metadata.entries = entries;
+  let buffer: Buffer = await fs.promises.readFile(filePath);
+  if (isEncryptedOffice(buffer)) {
+    metadata.encrypted = true;
+    addEntries(entries, FORMAT_INFO, { 加密: "是" }, { structural: true });
+    if (!password) return metadata;
+    buffer = decryptOffice(buffer, password).buffer;
+  }
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    metadata.fileCount = Object.keys(zip.files).length;
+    addEntries(entries, FORMAT_INFO, { 部件数: metadata.fileCount }, { structural: true });
+
+    const coreXml = zip.file("docProps/core.xml");
+    if (coreXml) {
+      const text = await coreXml.async("string");
+      addEntries(entries, "OOXML core", xmlFields(text), {
+        profileKeys: toProfileKeys(KEEPABLE_CORE_FIELDS),
+      });
+      metadata.title = text.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1];
+      metadata.author = text.match(
+        /<dc:creator>([\s\S]*?)<\/dc:creator>/
+      )?.[1];
+      metadata.lastModifiedBy = text.match(
+        /<cp:lastModifiedBy>([\s\S]*?)<\/cp:lastModifiedBy>/
+      )?.[1];
+      metadata.creationDate = text.match(
+        /<dcterms:created[^>]*>([\s\S]*?)<\/dcterms:created>/
+      )?.[1];
+    }
+    // app.xml 与 custom.xml 在处理时整个删除
+    const appXml = zip.file("docProps/app.xml");
+    if (appXml) {
+      addEntries(entries, "OOXML app", xmlFields(await appXml.async("string"), ["xmlns", "vt"]));
+    }
+    const customXml = zip.file("docProps/custom.xml");
+    if (customXml) {
+      const text = await customXml.async("string");
+      addEntries(
+        entries,
+        "OOXML custom",
+        Object.fromEntries(
+          Array.from(text.matchAll(/<property\b[^>]*\bname="([^"]*)"[^>]*>([\s\S]*?)<\/property>/g), ([, name, body]) => [
+            name,
+            xmlFields(body, ["xmlns"]).map(([, value]) => value).join("; "),
+          ])
+        )
+      );
+    }
+  } catch (e) {
+    console.error("Failed to parse OOXML metadata:", e);
+    metadata.readFailed = true;
+  }
+  return metadata;
+};
+
+const inspectLegacyOffice = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  metadata.mime = "application/x-ole-storage";
+  const summary = readOleSummary(await fs.promises.readFile(filePath));
+  metadata.title = summary.title;
+  metadata.subject = summary.subject;
+  metadata.author = summary.author;
+  metadata.lastModifiedBy = summary.lastSavedBy;
+  metadata.company = summary.company;
+  metadata.revisionCount = summary.revisionCount;
+  metadata.creator = summary.application;
+  metadata.creationDate = summary.createdAt?.toISOString();
+  metadata.entries = [];
+  addEntries(metadata.entries, "OLE 摘要", {
+    Title: summary.title,
+    Subject: summary.subject,
+    Author: summary.author,
+    Keywords: summary.keywords,
+    Comments: summary.comments,
+    LastAuthor: summary.lastSavedBy,
+    AppName: summary.application,
+    CreateTime: summary.createdAt,
+    LastSaveTime: summary.lastSavedAt,
+    RevisionNumber: summary.revisionCount,
+    Company: summary.company,
+    Manager: summary.manager,
+    CustomProperties: summary.customPropertyCount,
+  }, { profileKeys: OLE_SUMMARY_PROFILE_KEYS });
+  return metadata;
+};
+
+export const inspectPdf = async (filePath: string, password?: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const entries: MetadataEntry[] = [];
+  metadata.entries = entries;
+  const data = await fs.promises.readFile(filePath);
+  let pdfDoc = await PDFDocument.load(data, {
+    updateMetadata: false,
+    ignoreEncryption: true,
+  });
+  if (isEncryptedPdf(pdfDoc.context)) {
+    // 加密文件中的字符串为密文，无密码时不展示
+    metadata.encrypted = true;
+    addEntries(entries, FORMAT_INFO, { 加密: "是" }, { structural: true });
+    if (!password) return metadata;
+    const decrypted = await decryptPdf(data, pdfDoc.context, password);
+    pdfDoc = await PDFDocument.load(decrypted.buffer, { updateMetadata: false });
+  }
+  metadata.title = pdfDoc.getTitle();
+  metadata.author = pdfDoc.getAuthor();
+  metadata.creator = pdfDoc.getCreator();
+  metadata.producer = pdfDoc.getProducer();
+  metadata.subject = pdfDoc.getSubject();
+  metadata.keywords = pdfDoc.getKeywords();
+  metadata.hasXmp = pdfDoc.catalog.has(PDFName.of("Metadata"));
+  metadata.pageCount = pdfDoc.getPageCount();
+  metadata.activeContent = findPdfActiveContent(pdfDoc);
+
+  addEntries(entries, FORMAT_INFO, { 页数: metadata.pageCount }, { structural: true });
+  addEntries(entries, "PDF Info", {
+    Title: metadata.title,
+    Author: metadata.author,
+    Subject: metadata.subject,
+    Keywords: metadata.keywords,
+  }, { profileKeys: PDF_INFO_PROFILE_KEYS });
+  // Info 中的 Creator 为创建文档的程序而非作者
+  addEntries(entries, "PDF Info", { Creator: metadata.creator, Producer: metadata.producer }, {
+    profileKeys: PDF_INFO_PROFILE_KEYS,
+    sensitivity: "device",
+  });
+  // 处理时不改动创建与修改日期
+  addEntries(entries, "PDF Info", {
+    CreationDate: pdfDoc.getCreationDate(),
+    ModDate: pdfDoc.getModificationDate(),
+  }, { willRemove: false });
+  const xmp = pdfDoc.catalog.lookup(PDFName.of("Metadata"));
+  if (xmp instanceof PDFRawStream) {
+    try {
+      addEntries(entries, "XMP", xmlFields(Buffer.from(decodePDFRawStream(xmp).decode()).toString("utf8")));
+    } catch (e) {
+      addEntries(entries, "XMP", { 元数据流: "无法解码" });
+    }
+  }
+  addEntries(entries, "PDF 活动内容", Object.fromEntries(metadata.activeContent.map((item) => [item, "存在"])));
+  return metadata;
+};
+
+export const inspectOdf = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+  metadata.fileCount = Object.keys(zip.files).length;
+  metadata.entries = [];
+  addEntries(metadata.entries, FORMAT_INFO, { 部件数: metadata.fileCount }, { structural: true });
+  const metaXml = zip.file("meta.xml");
+  if (metaXml) {
+    const text = await metaXml.async("string");
+    addEntries(metadata.entries, "ODF meta", xmlFields(text, ["xmlns", "office"]), {
+      profileKeys: toProfileKeys(KEEPABLE_META_FIELDS),
+    });
+    metadata.title = text.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1];
+    metadata.author = text.match(/<dc:creator>([\s\S]*?)<\/dc:creator>/)?.[1];
+    metadata.initialCreator = text.match(
+      /<meta:initial-creator>([\s\S]*?)<\/meta:initial-creator>/
+    )?.[1];
+    metadata.generator = text.match(
+      /<meta:generator>([\s\S]*?)<\/meta:generator>/
+    )?.[1];
+    metadata.creationDate = text.match(
+      /<meta:creation-date>([\s\S]*?)<\/meta:creation-date>/
+    )?.[1];
+    metadata.editingDuration = text.match(
+      /<meta:editing-duration>([\s\S]*?)<\/meta:editing-duration>/
+    )?.[1];
+    const cycles = text.match(
+      /<meta:editing-cycles>([\s\S]*?)<\/meta:editing-cycles>/
+    )?.[1];
+    metadata.editingCycles = cycles ? Number(cycles) : undefined;
+  }
+  return metadata;
+};
+
+export const inspectZip = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const data = await fs.promises.readFile(filePath);
+  const zip = await JSZip.loadAsync(data);
+  metadata.fileCount = Object.keys(zip.files).length;
+  // JSZip 读取时保留了归档注释，但未在类型中声明
+  metadata.comment = (zip as JSZip & { comment?: string | null }).comment ?? undefined;
+  metadata.entries = [];
+  addEntries(metadata.entries, FORMAT_INFO, { 文件数: metadata.fileCount }, { structural: true });
+  addEntries(metadata.entries, "ZIP", { 注释: metadata.comment });
+  return metadata;
+};
+
+export const inspectTar = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const data = await fs.promises.readFile(filePath);
+  metadata.fileCount = await countTarEntries(data);
+  metadata.entries = [];
+  addEntries(metadata.entries, FORMAT_INFO, { 文件数: metadata.fileCount }, { structural: true });
+  return metadata;
+};
+
+export const inspectSevenZip = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  metadata.fileCount = await countSevenZipEntries(filePath);
+  metadata.entries = [];
+  addEntries(metadata.entries, FORMAT_INFO, { 文件数: metadata.fileCount }, { structural: true });
+  return metadata;
+};
+
+export const inspectEpub = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+  metadata.fileCount = Object.keys(zip.files).length;
+  metadata.entries = [];
+  addEntries(metadata.entries, FORMAT_INFO, { 文件数: metadata.fileCount }, { structural: true });
+  const opfPath = await findOpfPath(zip);
+  const opf = opfPath ? zip.file(opfPath) : null;
+  if (opf) {
+    const text = await opf.async("string");
+    const fields = xmlFields(text.match(/<metadata\b[\s\S]*?<\/metadata>/)?.[0] ?? "").filter(([k]) => k.startsWith("dc:"));
+    for (const [key, value] of fields) {
+      const removed = key in EPUB_REMOVED_FIELDS;
+      addEntries(metadata.entries, "EPUB OPF", [[key, value]], {
+        profileKey: EPUB_REMOVED_FIELDS[key],
+        structural: !removed,
+      });
+    }
+    const modified = text.match(/<meta\b[^>]*property="dcterms:modified"[^>]*>([\s\S]*?)<\/meta>/)?.[1];
+    addEntries(metadata.entries, "EPUB OPF", { "dcterms:modified": modified }, {
+      structural: modified === NORMALIZED_MODIFIED,
+    });
+    metadata.title = text.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/)?.[1];
+    metadata.author = text.match(
+      /<dc:creator\b[^>]*>([\s\S]*?)<\/dc:creator>/
+    )?.[1];
+    metadata.creationDate = text.match(
+      /<dc:date\b[^>]*>([\s\S]*?)<\/dc:date>/
+    )?.[1];
+  }
+  return metadata;
+};
+
+export const inspectAudio = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const entries: MetadataEntry[] = [];
+  metadata.entries = entries;
+  await new Promise<void>((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err || !data) metadata.readFailed = true;
+      if (!err && data) {
+        const audioStream = data.streams.find(
+          (s) => s.codec_type === "audio"
+        );
+        // Vorbis 注释在 OGG 中挂在音频流上，统一合并后按小写键读取
+        const tags: Record<string, string> = {};
+        for (const source of [data.format.tags, audioStream?.tags]) {
+          for (const [k, v] of Object.entries(source ?? {})) {
+            tags[k] = String(v);
+          }
+        }
+        const tag = (name: string) =>
+          Object.entries(tags).find(([k]) => k.toLowerCase() === name)?.[1];
+
+        metadata.duration = data.format.duration;
+        metadata.formatTags = tags;
+        metadata.audioCodec = audioStream?.codec_name;
+        metadata.bitrate = data.format.bit_rate
+          ? Number(data.format.bit_rate)
+          : undefined;
+        metadata.title = tag("title");
+        metadata.artist = tag("artist");
+        metadata.album = tag("album");
+        metadata.comment = tag("comment") ?? tag("description");
+        metadata.creationDate = tag("date") ?? tag("creation_time");
+        metadata.hasCover = data.streams.some(
+          (s) => s.disposition?.attached_pic === 1
+        );
+
+        const formatName = data.format.format_name ?? "";
+        const namespace =
+          AUDIO_TAG_NAMESPACES.find(([pattern]) => pattern.test(formatName))?.[1] ?? "音频标签";
+        addEntries(entries, FORMAT_INFO, {
+          时长: metadata.duration ? `${metadata.duration.toFixed(1)} 秒` : undefined,
+          编码: metadata.audioCodec,
+          码率: metadata.bitrate ? `${Math.round(metadata.bitrate / 1000)} kbps` : undefined,
+        }, { structural: true });
+        addMediaTags(entries, namespace, tags);
+        if (metadata.hasCover) {
+          addEntries(entries, namespace, { 封面图片: "存在" }, { profileKey: "media.cover", sensitivity: "other" });
+        }
+      }
+      resolve();
+    });
+  });
+  return metadata;
+};
+
+export const inspectVideo = async (filePath: string): Promise<FileMetadata> => {
+  const metadata: FileMetadata = {};
+  const entries: MetadataEntry[] = [];
+  metadata.entries = entries;
+  await new Promise<void>((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err || !data) metadata.readFailed = true;
+      if (!err && data) {
+        metadata.duration = data.format.duration;
+        metadata.formatTags = Object.fromEntries(
+          Object.entries(data.format.tags ?? {}).map(([k, v]) => [
+            k,
+            String(v),
+          ])
+        );
+        metadata.bitrate = data.format.bit_rate
+          ? Number(data.format.bit_rate)
+          : undefined;
+        metadata.encoder = data.format.tags?.encoder
+          ? String(data.format.tags.encoder)
+          : undefined;
+        metadata.title = data.format.tags?.title
+          ? String(data.format.tags.title)
+          : undefined;
+        metadata.author =
+          data.format.tags?.artist || data.format.tags?.author
+            ? String(data.format.tags.artist || data.format.tags.author)
+            : undefined;
+        metadata.creationDate = data.format.tags?.creation_time
+          ? String(data.format.tags.creation_time)
+          : undefined;
+
+        const videoStream = data.streams.find(
+          (s) => s.codec_type === "video"
+        );
+        if (videoStream) {
+          metadata.videoCodec = videoStream.codec_name;
+          metadata.width = videoStream.width;
+          metadata.height = videoStream.height;
+        }
+        const audioStream = data.streams.find(
+          (s) => s.codec_type === "audio"
+        );
+        if (audioStream) {
+          metadata.audioCodec = audioStream.codec_name;
+        }
+
+        addEntries(entries, FORMAT_INFO, {
+          时长: metadata.duration ? `${metadata.duration.toFixed(1)} 秒` : undefined,
+          分辨率: metadata.width && metadata.height ? `${metadata.width} × ${metadata.height}` : undefined,
+          视频编码: metadata.videoCodec,
+          音频编码: metadata.audioCodec,
+          码率: metadata.bitrate ? `${Math.round(metadata.bitrate / 1000)} kbps` : undefined,
+        }, { structural: true });
+        addMediaTags(entries, "容器标签", metadata.formatTags);
+      }
+      resolve();
+    });
+  });
+  return metadata;
+};
+
+export const inspectOffice = (filePath: string, format: DetectedFormat, password?: string) =>
+  isLegacyOfficeExt(format.ext) ? inspectLegacyOffice(filePath) : inspectOoxml(filePath, password);
+
+/**
+ * 插件处理器未提供元数据清单时，以其返回的文本与数值字段生成
+ */
+const fallbackEntries = (metadata: FileMetadata, namespace: string) => {
+  const entries: MetadataEntry[] = [];
+  addEntries(
+    entries,
+    namespace,
+    Object.entries(metadata).filter(
+      ([k, v]) => k !== "mime" && (typeof v === "string" || typeof v === "number")
+    )
+  );
+  return entries;
+};
+
+/**
+ * 按识别出的格式交给对应处理器读取元数据；读取失败时只返回 MIME 并标记 readFailed。
+ * 元数据清单按 profile 标记每项在处理时是否会被删除，未指定配置时全部删除
+ */
+export const getDetailedMetadata = async (
+  filePath: string,
+  format: DetectedFormat,
+  // 加密文件的密码，缺省时只标记为已加密而不读取内容
+  password?: string,
+  profile?: MetadataProfile
+): Promise<FileMetadata> => {
+  try {
+    const processor = getProcessor(format.type);
+    const metadata = (await processor?.inspect?.(filePath, format, password)) ?? {};
+    const entries = metadata.entries ?? fallbackEntries(metadata, processor?.label ?? "元数据");
+    return { mime: format.mime, ...metadata, entries: annotateEntries(entries, profile) };
+  } catch (err) {
+    console.error("Error extracting metadata:", err);
+    return { mime: format.mime, readFailed: true };
+  }
+};
@@ -0,0 +1,162 @@
+import { MetadataKey, isKept } from './profiles';
+import { MetadataEntry, MetadataProfile, MetadataSensitivity } from './types';
+
+// 元数据清单：各格式的读取函数将元数据整理为统一的条目列表，
+// 敏感类别按键名推断，是否删除按当前保留配置判断
+
+// 按顺序匹配，先命中的类别生效（如 CameraOwnerName 属于身份而非设备）
+const SENSITIVITY_PATTERNS: Array<[MetadataSensitivity, RegExp]> = [
+  ['location', /gps|latitude|longitude|altitude|location|city|country|province|address/i],
+  [
+    'identity',
+    /artist|author|creator(?!tool)|copyright|rights|owner|by-?line|writer|editor|contributor|lastmodifiedby|lastsavedby|company|manager|contact|credit|publisher|uniqueid|identifier|documentid|instanceid/i,
+  ],
+  ['device', /make|model|serial|lens|camera|software|encoder|generator|producer|application|creatortool|handler|hostcomputer|program|vendor|device/i],
+  ['time', /date|time|created|modified|duration/i],
+];
+
+export function classifySensitivity(key: string): MetadataSensitivity {
+  return SENSITIVITY_PATTERNS.find(([, pattern]) => pattern.test(key))?.[0] ?? 'other';
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+const formatValue = (value: unknown) =>
+  value instanceof Date ? value.toISOString() : Array.isArray(value) ? value.join(', ') : String(value).trim();
+
+/**
+ * 将键值对追加为同一命名空间下的条目，空值跳过；
+ * profileKeys 为键名到保留配置键的对应关系
+ */
+export function addEntries(
+  entries: MetadataEntry[],
+  namespace: string,
+  values: Record<string, unknown> | Array<[string, unknown]>,
+  extra: Partial<MetadataEntry> & { profileKeys?: Record<string, MetadataKey> } = {}
+) {
+  const { profileKeys, ...rest } = extra;
+  for (const [key, value] of Array.isArray(values) ? values : Object.entries(values)) {
+    if (isBlank(value)) continue;
+    entries.push({ namespace, key, value: formatValue(value), profileKey: profileKeys?.[key], ...rest });
+  }
+}
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * 取出 XML 中的文本字段，同名字段的多个值合并为一项。
+ * ignore 中前缀（rdf:、x: 等）的元素不作为字段：其中的文本归到最近的其他祖先元素，
+ * 因此 XMP 中 rdf:Seq/rdf:li 的值归到其属性名；这些元素上的带前缀属性
+ * （XMP 简写形式，如 rdf:Description 上的 xmp:CreatorTool）同样作为字段
+ */
+export function xmlFields(xml: string, ignore: string[] = ['xmlns', 'rdf', 'x', 'xml']): Array<[string, string]> {
+  const fields = new Map<string, string[]>();
+  const add = (name: string, value: string) => {
+    const text = decodeXml(value).trim();
+    if (!text || ignore.includes(name.split(':')[0])) return;
+    fields.set(name, [...(fields.get(name) ?? []), text]);
+  };
+  const stack: string[] = [];
+  const pattern = /<(\/?)([\w.-]+:[\w.-]+|[\w.-]+)((?:\s+[^>]*?)?)(\/?)>|<[?!][^>]*>|([^<]+)/g;
+  for (const [, closing, name, attrs, selfClosing, text] of xml.matchAll(pattern)) {
+    if (text !== undefined) {
+      const owner = [...stack].reverse().find((n) => !ignore.includes(n.split(':')[0]));
+      if (owner) add(owner, text);
+    } else if (name && closing) {
+      const index = stack.lastIndexOf(name);
+      if (index >= 0) stack.splice(index);
+    } else if (name) {
+      if (ignore.includes(name.split(':')[0])) {
+        for (const [, attrName, , value] of (attrs ?? '').matchAll(/([\w.-]+:[\w.-]+)\s*=\s*(["'])([\s\S]*?)\2/g)) {
+          add(attrName, value);
+        }
+      }
+      if (!selfClosing) stack.push(name);
+    }
+  }
+  return Array.from(fields, ([name, values]) => [name, values.join('; ')]);
+}
+
+// IPTC-IIM 应用记录（record 2）中的数据集名称
+const IPTC_DATASETS: Record<number, string> = {
+  5: 'ObjectName',
+  25: 'Keywords',
+  40: 'SpecialInstructions',
+  55: 'DateCreated',
+  60: 'TimeCreated',
+  62: 'DigitalCreationDate',
+  63: 'DigitalCreationTime',
+  65: 'OriginatingProgram',
+  80: 'By-line',
+  85: 'By-lineTitle',
+  90: 'City',
+  92: 'Sub-location',
+  95: 'Province-State',
+  100: 'Country-PrimaryLocationCode',
+  101: 'Country-PrimaryLocationName',
+  103: 'OriginalTransmissionReference',
+  105: 'Headline',
+  110: 'Credit',
+  115: 'Source',
+  116: 'CopyrightNotice',
+  118: 'Contact',
+  120: 'Caption-Abstract',
+  122: 'Writer-Editor',
+};
+
+/**
+ * 解析 IPTC-IIM 数据集。data 可以是 Photoshop 图像资源块（取其中的 0x0404 资源）或裸 IIM 数据，
+ * 未列出名称的数据集以编号表示
+ */
+export function iptcFields(data: Buffer): Array<[string, string]> {
+  let iim = data;
+  for (let pos = data.indexOf('8BIM'); pos >= 0 && pos + 12 <= data.length; ) {
+    const id = data.readUInt16BE(pos + 4);
+    const nameLength = data[pos + 6];
+    const sizePos = pos + 6 + ((nameLength + 2) & ~1);
+    if (sizePos + 4 > data.length) break;
+    const size = data.readUInt32BE(sizePos);
+    if (id === 0x0404) {
+      iim = data.subarray(sizePos + 4, sizePos + 4 + size);
+      break;
+    }
+    pos = data.indexOf('8BIM', sizePos + 4 + size + (size & 1));
+  }
+
+  const fields = new Map<string, string[]>();
+  for (let pos = 0; pos + 5 <= iim.length && iim[pos] === 0x1c; ) {
+    const record = iim[pos + 1];
+    const dataset = iim[pos + 2];
+    const length = iim.readUInt16BE(pos + 3);
+    const value = iim.toString('utf8', pos + 5, pos + 5 + length).replace(/\0+$/, '').trim();
+    pos += 5 + length;
+    if (record !== 2 || dataset === 0 || !value) continue;
+    const name = IPTC_DATASETS[dataset] ?? `2:${dataset}`;
+    fields.set(name, [...(fields.get(name) ?? []), value]);
+  }
+  return Array.from(fields, ([name, values]) => [name, values.join('; ')]);
+}
+
+/**
+ * 补全条目的敏感类别，并按保留配置标记是否会被删除（已预先标记的条目不变）；
+ * 结构信息不会删除，也不归入敏感类别
+ */
+export function annotateEntries(entries: MetadataEntry[], profile?: MetadataProfile): MetadataEntry[] {
+  return entries.map((entry) =>
+    entry.structural
+      ? { ...entry, sensitivity: entry.sensitivity ?? 'other', willRemove: false }
+      : {
+          ...entry,
+          sensitivity: entry.sensitivity ?? classifySensitivity(entry.key),
+          willRemove: entry.willRemove ?? !(entry.profileKey && isKept(profile, entry.profileKey as MetadataKey)),
+        }
+  );
+}
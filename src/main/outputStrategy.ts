@@ -1,39 +1,89 @@
 import fs from 'fs';
 import path from 'path';
-import { ProcessOptions } from './types';
+import { extensionOf } from './formats';
+import { OutputExistsError } from './errors';
+import { ProcessItem, ProcessOptions } from './types';
 
 export interface ResolvedPath {
   outputPath: string;
   backupPath?: string;
+  // 输出路径已被占用时按冲突策略得到的结果
+  collision?: 'overwritten' | 'renamed' | 'skipped';
 }
 
 const ensureDir = async (dir: string) => {
   await fs.promises.mkdir(dir, { recursive: true });
 };
 
+// 在 dir 中找一个未被占用的文件名，依次尝试 name.ext、name-1.ext、name-2.ext ...
+function numberedPath(dir: string, name: string, ext: string, taken: (p: string) => boolean) {
+  let candidate = path.join(dir, `${name}${ext}`);
+  for (let n = 1; taken(candidate); n++) candidate = path.join(dir, `${name}-${n}${ext}`);
+  return candidate;
+}
+
+/**
+ * 计算输出路径并按冲突策略处理已存在的文件。
+ * reserved 为本批次中已分配的输出路径，并行处理时用来避免两个文件写到同一位置；
+ * 策略为 error 时抛出 OutputExistsError
+ */
 export async function resolvePaths(
-  inputPath: string,
-  options: ProcessOptions
+  item: ProcessItem,
+  options: ProcessOptions,
+  reserved?: Set<string>
 ): Promise<ResolvedPath> {
+  const inputPath = item.path;
   const parsed = path.parse(inputPath);
+  // .tar.gz 等复合扩展名需整体保留在后缀之后
+  const ext = parsed.base.slice(parsed.base.length - extensionOf(parsed.base).length);
+  const name = parsed.base.slice(0, parsed.base.length - ext.length);
   const suffix = options.copySuffix ?? "-clean";
+  const taken = (p: string) => reserved?.has(p) || fs.existsSync(p);
 
   if (options.overwriteSource) {
     // 如果覆盖源文件，先输出到一个临时文件
     const outputPath = path.join(
       parsed.dir,
-      `.${parsed.name}${suffix}_tmp${parsed.ext}`
+      `.${name}${suffix}_tmp${ext}`
     );
-    return { outputPath };
+    if (!options.backupDir) {
+      return { outputPath };
+    }
+    // 不同目录下的同名文件备份到同一批次目录时自动编号
+    const backupPath = numberedPath(options.backupDir, name, ext, taken);
+    reserved?.add(backupPath);
+    return { outputPath, backupPath };
   }
 
   if (!options.outputDir) {
     throw new Error("未提供输出目录");
   }
-  await ensureDir(options.outputDir);
-  const outputPath = path.join(
-    options.outputDir,
-    `${parsed.name}${suffix}${parsed.ext}`
-  );
-  return { outputPath };
+  // 保持目录结构时输出到 <输出目录>/<拖入的文件夹名>/<相对子目录>
+  const dir = options.preserveStructure && item.root
+    ? path.join(options.outputDir, path.basename(item.root), path.relative(item.root, parsed.dir))
+    : options.outputDir;
+  if (!options.dryRun) {
+    await ensureDir(dir);
+  }
+
+  let outputPath = path.join(dir, `${name}${suffix}${ext}`);
+  let collision: ResolvedPath['collision'];
+  if (reserved?.has(outputPath)) {
+    // 冲突策略只针对批次开始前已存在的文件，本批次内的同名输出一律编号
+    outputPath = numberedPath(dir, `${name}${suffix}`, ext, taken);
+    collision = 'renamed';
+  } else if (fs.existsSync(outputPath)) {
+    const policy = options.collisionPolicy ?? 'rename';
+    if (policy === 'error') {
+      throw new OutputExistsError(`输出文件已存在：${outputPath}`);
+    }
+    if (policy === 'rename') {
+      outputPath = numberedPath(dir, `${name}${suffix}`, ext, taken);
+      collision = 'renamed';
+    } else {
+      collision = policy === 'skip' ? 'skipped' : 'overwritten';
+    }
+  }
+  reserved?.add(outputPath);
+  return { outputPath, collision };
 }
@@ -0,0 +1,202 @@
+import { VerificationError } from './errors';
+import { getDetailedMetadata } from './metadataInspector';
+import { detectFormat, isLegacyOfficeExt } from './formats';
+import { getProcessor } from './processorRegistry';
+import { MetadataKey, isKept } from './profiles';
+import { FileMetadata, MetadataEntry, MetadataProfile, ProcessOptions } from './types';
+
+// 容器结构字段，清理后仍会由 muxer 写入，不属于隐私信息
+export const STRUCTURAL_FORMAT_TAGS = new Set(['major_brand', 'minor_version', 'compatible_brands']);
+
+// 元数据清单中 EXIF 各节（Image/Photo/Iop 与 GPSInfo）所在的命名空间
+const EXIF_NAMESPACES = new Set(['EXIF', 'EXIF GPS']);
+
+const FORMAT_TAG_PROFILE_KEYS: Record<string, MetadataKey> = {
+  title: 'media.title',
+  artist: 'media.artist',
+  album_artist: 'media.artist',
+  copyright: 'media.copyright',
+};
+
+// bitexact 模式下 FLAC/OGG 必须写入的 Vorbis 厂商字符串，不含版本信息
+const BITEXACT_VENDOR = /^(lavf|ffmpeg)$/i;
+
+// 第三项为对应的保留配置键，配置允许保留的字段不计为残留
+const DOCUMENT_FIELDS: Record<string, Array<[keyof FileMetadata, string, MetadataKey?]>> = {
+  office: [
+    ['title', '标题', 'document.title'],
+    ['author', '作者', 'document.author'],
+    ['lastModifiedBy', '最后修改人'],
+    ['creationDate', '创建日期'],
+    ['company', '公司'],
+    ['revisionCount', '修订次数'],
+  ],
+  odf: [
+    ['title', '标题', 'document.title'],
+    ['author', '作者'],
+    ['initialCreator', '初始创建者', 'document.author'],
+    ['generator', '生成程序', 'document.application'],
+    ['creationDate', '创建日期'],
+    ['editingCycles', '编辑次数'],
+  ],
+  // 书名属于内容本身，不作为残留
+  epub: [
+    ['author', '作者', 'document.author'],
+    ['creationDate', '出版日期'],
+  ],
+  pdf: [
+    ['title', 'Title', 'document.title'],
+    ['author', 'Author', 'document.author'],
+    ['subject', 'Subject', 'document.subject'],
+    ['keywords', 'Keywords', 'document.keywords'],
+    ['creator', 'Creator', 'document.application'],
+    ['producer', 'Producer', 'document.application'],
+  ],
+};
+
+const isPresent = (value: unknown) =>
+  value !== undefined && value !== null && String(value).trim() !== '';
+
+const describe = (label: string, before: unknown, after: unknown) =>
+  isPresent(before) && String(before) === String(after) ? `${label}（原值保留）` : label;
+
+/**
+ * 按元数据清单比对 EXIF：除结构字段（方向、分辨率等）与配置允许保留的字段外，
+ * 输出中仍存在的条目都计为残留
+ */
+function compareExif(
+  before: FileMetadata,
+  after: FileMetadata,
+  residual: string[],
+  profile?: MetadataProfile
+) {
+  if (!after.hasExif) return;
+  const entries = (after.entries ?? []).filter((e) => EXIF_NAMESPACES.has(e.namespace));
+  if (entries.length === 0) {
+    residual.push('EXIF 块');
+    return;
+  }
+  const remaining = entries.filter(
+    (e) => !e.structural && !(e.profileKey && isKept(profile, e.profileKey as MetadataKey))
+  );
+  const isGps = (e: MetadataEntry) => e.namespace === 'EXIF GPS' || e.key.startsWith('GPS');
+  const gpsKeys = remaining.filter(isGps).map((e) => e.key);
+  if (gpsKeys.length > 0) {
+    residual.push(`EXIF GPS: ${gpsKeys.join(', ')}`);
+  }
+  for (const entry of remaining.filter((e) => !isGps(e))) {
+    const original = before.entries?.find((e) => e.namespace === entry.namespace && e.key === entry.key);
+    residual.push(describe(`EXIF ${entry.key}`, original?.value, entry.value));
+  }
+}
+
+function compareFields(
+  prefix: string,
+  fields: Array<[keyof FileMetadata, string, MetadataKey?]>,
+  before: FileMetadata,
+  after: FileMetadata,
+  residual: string[],
+  profile?: MetadataProfile
+) {
+  for (const [key, label, profileKey] of fields) {
+    if (profileKey && isKept(profile, profileKey)) continue;
+    if (isPresent(after[key])) {
+      residual.push(describe(`${prefix} ${label}`, before[key], after[key]));
+    }
+  }
+}
+
+function compareFormatTags(
+  before: FileMetadata,
+  after: FileMetadata,
+  residual: string[],
+  profile?: MetadataProfile
+) {
+  for (const [key, value] of Object.entries(after.formatTags ?? {})) {
+    if (STRUCTURAL_FORMAT_TAGS.has(key.toLowerCase()) || !isPresent(value)) continue;
+    const profileKey = FORMAT_TAG_PROFILE_KEYS[key.toLowerCase()];
+    if (profileKey && isKept(profile, profileKey)) continue;
+    if (key.toLowerCase() === 'encoder' && BITEXACT_VENDOR.test(value)) continue;
+    residual.push(describe(`ffprobe 标签 ${key}`, before.formatTags?.[key], value));
+  }
+}
+
+/**
+ * 对输出文件重新提取元数据并与输入比对，返回仍然残留的元数据项；
+ * 空数组表示校验通过，处理器不提供校验时同样返回空数组。输出文件无法读取时抛出 VerificationError
+ */
+export async function verifyOutput(
+  inputPath: string,
+  outputPath: string,
+  options: Partial<ProcessOptions> = {}
+): Promise<string[]> {
+  // 输出与输入格式相同，按原文件识别一次，两边用同一种方式读取
+  const format = await detectFormat(inputPath);
+  const processor = getProcessor(format.type);
+  if (!processor?.verify) return [];
+  // 加密文件的输出沿用原密码，需用同一密码解密后比对
+  const password = options.passwords?.[inputPath] ?? options.password;
+  const [before, after] = await Promise.all([
+    getDetailedMetadata(inputPath, format, password),
+    getDetailedMetadata(outputPath, format, password),
+  ]);
+  if (after.readFailed) {
+    throw new VerificationError('校验失败：无法读取输出文件');
+  }
+  return processor.verify(before, after, options, format);
+}
+
+/**
+ * 列出源文件中处理时会删除的元数据项（配置允许保留的不计入）；
+ * 处理器不提供校验（压缩包等）或文件已加密时 removable 为 undefined
+ */
+export async function inspectRemovableMetadata(
+  inputPath: string,
+  options: Partial<ProcessOptions> = {}
+): Promise<{ encrypted: boolean; removable?: string[] }> {
+  const format = await detectFormat(inputPath);
+  const processor = getProcessor(format.type);
+  if (!processor?.verify) return { encrypted: false };
+  const metadata = await getDetailedMetadata(inputPath, format);
+  if (metadata.encrypted) return { encrypted: true };
+  return { encrypted: false, removable: processor.verify({}, metadata, options, format) };
+}
+
+/**
+ * 内置处理器的校验：找出 after 中仍存在的元数据项，before 为处理前的值，用于标注原值是否被保留
+ */
+export function findMetadata(
+  category: string,
+  ext: string,
+  before: FileMetadata,
+  after: FileMetadata,
+  options: Partial<ProcessOptions>
+) {
+  const residual: string[] = [];
+  const { profile } = options;
+  if (category === 'image') {
+    compareExif(before, after, residual, profile);
+    if (after.hasXmp) residual.push('XMP');
+    if (after.hasIptc) residual.push('IPTC');
+  } else if (category === 'raw') {
+    compareExif(before, after, residual, profile);
+  } else if (category === 'office') {
+    const prefix = isLegacyOfficeExt(ext) ? 'OLE 摘要' : 'OOXML core';
+    compareFields(prefix, DOCUMENT_FIELDS.office, before, after, residual, profile);
+  } else if (category === 'odf') {
+    compareFields('ODF meta', DOCUMENT_FIELDS.odf, before, after, residual, profile);
+  } else if (category === 'epub') {
+    compareFields('EPUB OPF', DOCUMENT_FIELDS.epub, before, after, residual, profile);
+  } else if (category === 'pdf') {
+    compareFields('PDF Info', DOCUMENT_FIELDS.pdf, before, after, residual, profile);
+    if (after.hasXmp) residual.push('PDF XMP');
+    for (const item of after.activeContent ?? []) residual.push(`PDF ${item}`);
+  } else if (category === 'video') {
+    compareFormatTags(before, after, residual, profile);
+  } else if (category === 'audio') {
+    compareFormatTags(before, after, residual, profile);
+    const coverKept = options.keepCoverArt || isKept(profile, 'media.cover');
+    if (after.hasCover && !coverKept) residual.push('封面图片');
+  }
+  return residual;
+}
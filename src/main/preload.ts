@@ -1,23 +1,35 @@
-import { contextBridge, ipcRenderer, webUtils } from 'electron';
-import { ProcessItem, ProcessOptions, AppConfig, FileDetailedInfo } from './types';
+import { contextBridge, ipcRenderer, IpcRendererEvent, webUtils } from 'electron';
+import { ProcessItem, ProcessOptions, ProcessProgress, AppConfig, FileDetailedInfo, MetadataProfile, ScanResult, ScanOptions, BackupBatchInfo, UndoResult, ProcessorInfo } from './types';
 
 type DropListener = (paths: string[]) => void;
+type ProgressListener = (progress: ProcessProgress) => void;
 const dropListeners = new Set<DropListener>();
 const navDropListeners = new Set<DropListener>();
 
 const api = {
   getConfig: () => ipcRenderer.invoke('get-config') as Promise<AppConfig>,
   setConfig: (config: AppConfig) => ipcRenderer.invoke('set-config', config) as Promise<boolean>,
-  getFileInfo: (path: string) => ipcRenderer.invoke('get-file-info', path) as Promise<FileDetailedInfo>,
+  getProfiles: () => ipcRenderer.invoke('get-profiles') as Promise<MetadataProfile[]>,
+  getProcessors: () => ipcRenderer.invoke('get-processors') as Promise<ProcessorInfo[]>,
+  getFileInfo: (path: string, profile?: MetadataProfile) =>
+    ipcRenderer.invoke('get-file-info', path, profile) as Promise<FileDetailedInfo>,
   clearDirectory: (dirPath: string) => ipcRenderer.invoke('clear-directory', dirPath) as Promise<boolean>,
   openDirectory: (dirPath: string) => ipcRenderer.invoke('open-directory', dirPath) as Promise<boolean>,
   selectDirectory: () => ipcRenderer.invoke('select-directory') as Promise<string | null>,
   selectFiles: () => ipcRenderer.invoke('select-files') as Promise<string[]>,
   openFileDialog: () => ipcRenderer.invoke('dialog:openFile') as Promise<string | null>,
-  scanPaths: (paths: string[]) =>
-    ipcRenderer.invoke('scan-paths', { paths }) as Promise<{ files: string[] }>,
+  scanPaths: (paths: string[], options?: ScanOptions, profile?: MetadataProfile) =>
+    ipcRenderer.invoke('scan-paths', { paths, options, profile }) as Promise<ScanResult>,
   processFiles: (items: ProcessItem[], options: ProcessOptions) =>
     ipcRenderer.invoke('process-files', { items, options }) as Promise<unknown>,
+  cancelProcessing: () => ipcRenderer.invoke('cancel-processing') as Promise<boolean>,
+  getLastBatch: () => ipcRenderer.invoke('get-last-batch') as Promise<BackupBatchInfo | null>,
+  undoLastBatch: () => ipcRenderer.invoke('undo-last-batch') as Promise<UndoResult | null>,
+  onProcessProgress: (listener: ProgressListener) => {
+    const handler = (_event: IpcRendererEvent, progress: ProcessProgress) => listener(progress);
+    ipcRenderer.on('process-progress', handler);
+    return () => ipcRenderer.removeListener('process-progress', handler);
+  },
   getFilePath: (file: File) => webUtils.getPathForFile(file),
   onFileDrop: (listener: DropListener) => {
     dropListeners.add(listener);
@@ -0,0 +1,33 @@
+import { parentPort, workerData } from 'worker_threads';
+import { processItem } from './batchProcessor';
+import { configureFfmpegPaths } from './ffmpegPaths';
+import { loadPlugins } from './processorRegistry';
+import { WorkerRequest, WorkerResponse } from './workerPool';
+
+// 工作线程入口：逐个接收文件并调用与主线程相同的 processItem
+
+configureFfmpegPaths();
+for (const dir of (workerData?.pluginDirs ?? []) as string[]) loadPlugins(dir);
+
+const controllers = new Map<number, AbortController>();
+const post = (message: WorkerResponse) => parentPort?.postMessage(message);
+
+parentPort?.on('message', async (message: WorkerRequest) => {
+  if (message.type === 'cancel') {
+    controllers.get(message.id)?.abort();
+    return;
+  }
+  const { id, item, resolved, options } = message;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    const result = await processItem(item, {
+      ...options,
+      signal: controller.signal,
+      onProgress: (fraction) => post({ type: 'progress', id, fraction }),
+    }, resolved);
+    post({ type: 'done', id, result });
+  } finally {
+    controllers.delete(id);
+  }
+});
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import type { DetectedFormat } from './formats';
+import { BUILTIN_PROCESSORS } from './processors/builtin';
+import { FileMetadata, ProcessOptions, ProcessorInfo } from './types';
+
+// 处理器注册表：格式识别、清理、元数据读取与校验都按处理器类型查找。
+// 除内置处理器外，可从插件目录加载额外的处理器以支持内部格式
+
+export interface BufferCleanResult {
+  buffer: Buffer;
+  removed: string[];
+}
+
+export interface MetadataProcessor {
+  // 处理器类型，同时用作处理结果与扫描摘要中的类型
+  type: string;
+  // 界面上显示的类型名称
+  label: string;
+  // 文件信息面板中的分类
+  category: string;
+  // 负责的扩展名（小写、带点），第一个为内容与文件名不符时使用的标准扩展名
+  exts: string[];
+  // 负责的 MIME（按文件头识别），以 / 或 . 结尾的按前缀匹配
+  mimes?: string[];
+  // 共享同一外部资源（如 ffmpeg）的处理器填写相同的组名，同组文件一次只处理一个
+  group?: string;
+  /**
+   * 自定义识别：head 为文件开头的字节，返回 true 时由该处理器处理，
+   * 优先于扩展名与 MIME 匹配
+   */
+  detect?(head: Buffer, format: { ext: string; mime?: string }): boolean | Promise<boolean>;
+  /** 读取元数据用于展示与校验；加密文件未提供密码时只标记 encrypted */
+  inspect?(filePath: string, format: DetectedFormat, password?: string): Promise<FileMetadata>;
+  clean(
+    inputPath: string,
+    outputPath: string,
+    options: Partial<ProcessOptions>,
+    format: DetectedFormat
+  ): Promise<{ removed: string[] }>;
+  /** 在内存中清理压缩包条目，未实现时条目原样保留；depth 为当前所在压缩包的嵌套层数 */
+  cleanBuffer?(
+    name: string,
+    data: Buffer,
+    options: Partial<ProcessOptions>,
+    depth: number,
+    format: DetectedFormat
+  ): Promise<BufferCleanResult>;
+  /**
+   * 比对处理前后的元数据，返回 after 中仍存在的元数据项；
+   * 未实现时不校验输出，扫描预览也不统计可删除的元数据
+   */
+  verify?(before: FileMetadata, after: FileMetadata, options: Partial<ProcessOptions>, format: DetectedFormat): string[];
+}
+
+export interface PluginLoadResult {
+  loaded: string[];
+  failed: Array<{ file: string; message: string }>;
+}
+
+// 插件处理器排在内置处理器之前，按 MIME 前缀或扩展名匹配时优先
+const plugins: MetadataProcessor[] = [];
+const pluginDirs: string[] = [];
+
+export function listProcessors(): MetadataProcessor[] {
+  return [...plugins, ...BUILTIN_PROCESSORS];
+}
+
+export function getProcessor(type: string | null | undefined) {
+  return type ? listProcessors().find((p) => p.type === type) : undefined;
+}
+
+export function describeProcessors(): ProcessorInfo[] {
+  return listProcessors().map((p) => ({
+    type: p.type,
+    label: p.label,
+    category: p.category,
+    exts: p.exts,
+    plugin: plugins.includes(p),
+  }));
+}
+
+/** 已加载过的插件目录，工作线程据此加载同样的插件 */
+export const loadedPluginDirs = () => [...pluginDirs];
+
+function validate(candidate: unknown): MetadataProcessor {
+  const p = candidate as Partial<MetadataProcessor> | null;
+  if (!p || typeof p.type !== 'string' || !p.type) throw new Error('缺少 type');
+  if (typeof p.clean !== 'function') throw new Error(`处理器 ${p.type} 缺少 clean 方法`);
+  if (!Array.isArray(p.exts)) throw new Error(`处理器 ${p.type} 缺少 exts`);
+  if (getProcessor(p.type)) throw new Error(`处理器类型 ${p.type} 已存在`);
+  return {
+    ...p,
+    label: p.label ?? p.type,
+    category: p.category ?? 'other',
+    exts: p.exts.map((ext) => ext.toLowerCase()),
+  } as MetadataProcessor;
+}
+
+export function registerProcessor(processor: MetadataProcessor) {
+  plugins.push(validate(processor));
+}
+
+/**
+ * 加载目录下的 .js / .cjs 插件。插件以 module.exports（或 default）导出一个处理器或处理器数组；
+ * 单个插件出错不影响其他插件，目录不存在时不加载任何插件
+ */
+export function loadPlugins(dir: string): PluginLoadResult {
+  const result: PluginLoadResult = { loaded: [], failed: [] };
+  const resolved = path.resolve(dir);
+  if (pluginDirs.includes(resolved) || !fs.existsSync(resolved)) return result;
+  pluginDirs.push(resolved);
+
+  for (const name of fs.readdirSync(resolved).sort()) {
+    if (!/\.c?js$/i.test(name)) continue;
+    const file = path.join(resolved, name);
+    try {
+      const exported = require(file);
+      const candidates = exported?.default ?? exported;
+      for (const candidate of Array.isArray(candidates) ? candidates : [candidates]) {
+        registerProcessor(candidate);
+        result.loaded.push(candidate.type);
+      }
+    } catch (err) {
+      result.failed.push({ file, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return result;
+}
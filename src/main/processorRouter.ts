@@ -1,63 +1,61 @@
-import path from 'path';
-import { fileTypeFromFile } from 'file-type';
-import { processImage } from './processors/imageProcessor';
-import { processOffice } from './processors/officeProcessor';
-import { processPdf } from './processors/pdfProcessor';
-import { processZip } from './processors/zipProcessor';
-import { processVideo } from './processors/videoProcessor';
-import { ProcessResult } from './types';
+import { CancelledError, EncryptedFileError, UnsupportedFormatError } from './errors';
+import { detectFormat, detectFormatFromBuffer } from './formats';
+import { BufferCleanResult, getProcessor } from './processorRegistry';
+import { ProcessOptions, ProcessResult } from './types';
 
-const imageExts = new Set([
-  '.jpg',
-  '.jpeg',
-  '.png',
-  '.webp',
-  '.tiff',
-  '.gif',
-  '.avif',
-  '.heic',
-]);
+/**
+ * 按文件内容判断应交给哪个处理器，无法识别时返回 null
+ */
+export async function detectProcessorType(inputPath: string): Promise<string | null> {
+  return (await detectFormat(inputPath)).type;
+}
 
-const officeExts = new Set(['.docx', '.xlsx', '.pptx', '.doc', '.xls', '.ppt']);
-const pdfExts = new Set(['.pdf']);
-const zipExts = new Set(['.zip']);
-const videoExts = new Set(['.mp4', '.mkv', '.mov', '.avi', '.wmv', '.flv', '.webm']);
+/**
+ * 在内存中清理单个文件（如压缩包条目），无法识别的类型返回 null 由调用方原样保留。
+ * depth 为当前所在压缩包的嵌套层数
+ */
+export async function processBufferByType(
+  name: string,
+  data: Buffer,
+  options: Partial<ProcessOptions> = {},
+  depth = 0,
+): Promise<BufferCleanResult | null> {
+  const format = await detectFormatFromBuffer(name, data);
+  const processor = getProcessor(format.type);
+  return processor?.cleanBuffer ? processor.cleanBuffer(name, data, options, depth, format) : null;
+}
 
 export async function processByType(
   inputPath: string,
   outputPath: string,
+  batchOptions: Partial<ProcessOptions> = {},
 ): Promise<ProcessResult> {
-  const ext = path.parse(inputPath).ext.toLowerCase();
-  const detected = await fileTypeFromFile(inputPath);
-  const mime = detected?.mime ?? '';
-
+  // 单个文件指定的密码优先于整批密码
+  const options = { ...batchOptions, password: batchOptions.passwords?.[inputPath] ?? batchOptions.password };
   try {
-    if (imageExts.has(ext) || mime.startsWith('image/')) {
-      const res = await processImage(inputPath, outputPath);
-      return { inputPath, outputPath, status: 'success', ...res };
+    const format = await detectFormat(inputPath);
+    const processor = getProcessor(format.type);
+    if (!processor) {
+      return {
+        inputPath,
+        status: 'error',
+        message: '不支持的文件类型',
+      };
     }
-    if (pdfExts.has(ext) || mime === 'application/pdf') {
-      const res = await processPdf(inputPath, outputPath);
-      return { inputPath, outputPath, status: 'success', ...res };
-    }
-    if (officeExts.has(ext)) {
-      const res = await processOffice(inputPath, outputPath);
-      return { inputPath, outputPath, status: 'success', ...res };
+    const { removed } = await processor.clean(inputPath, outputPath, options, format);
+    return { inputPath, outputPath, status: 'success', removed, type: processor.type };
+  } catch (err) {
+    if (err instanceof UnsupportedFormatError) {
+      return { inputPath, status: 'skipped', reason: 'unsupported', message: err.message };
     }
-    if (zipExts.has(ext) || mime === 'application/zip') {
-      const res = await processZip(inputPath, outputPath);
-      return { inputPath, outputPath, status: 'success', ...res };
+    if (err instanceof CancelledError) {
+      return { inputPath, outputPath, status: 'skipped', reason: 'cancelled', message: err.message };
     }
-    if (videoExts.has(ext) || mime.startsWith('video/')) {
-      const res = await processVideo(inputPath, outputPath);
-      return { inputPath, outputPath, status: 'success', ...res as any };
+    if (err instanceof EncryptedFileError) {
+      return err.wrongPassword
+        ? { inputPath, status: 'error', reason: 'wrong-password', message: err.message }
+        : { inputPath, status: 'skipped', reason: 'encrypted', message: err.message };
     }
-    return {
-      inputPath,
-      status: 'error',
-      message: '不支持的文件类型',
-    };
-  } catch (err) {
     return {
       inputPath,
       outputPath,
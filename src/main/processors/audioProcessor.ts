@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegPath from 'ffmpeg-static';
+import ffprobePath from 'ffprobe-static';
+import { isKept } from '../profiles';
+import { ProcessOptions } from '../types';
+import { keptMediaTags, probeMedia, runFfmpeg, useMuxerFor } from './mediaTags';
+
+if (ffmpegPath) ffmpeg.setFfmpegPath(ffmpegPath);
+if (ffprobePath) ffmpeg.setFfprobePath(ffprobePath.path);
+
+export type AudioCleanOptions = Pick<ProcessOptions, 'keepCoverArt' | 'profile' | 'signal' | 'onProgress'>;
+
+// 各容器承载标签的方式
+const TAG_LABELS: Record<string, string> = {
+  '.mp3': 'ID3v1/ID3v2 标签',
+  '.flac': 'Vorbis 注释',
+  '.ogg': 'Vorbis 注释',
+  '.m4a': 'iTunes 元数据 (ilst)',
+  '.wav': 'RIFF INFO 块',
+};
+
+// 封面以 attached_pic 视频流的形式存在，仅这些容器支持原样写回
+const COVER_CAPABLE_EXTS = new Set(['.mp3', '.flac', '.m4a']);
+
+/**
+ * ext 为按内容识别出的容器扩展名，缺省时取文件名的扩展名
+ */
+export async function processAudio(
+  inputPath: string,
+  outputPath: string,
+  options: AudioCleanOptions = {},
+  ext = path.extname(inputPath).toLowerCase()
+) {
+  const probe = await probeMedia(inputPath);
+  const hasCover = !!probe?.streams.some((s) => s.disposition?.attached_pic === 1);
+  const wantCover = !!options.keepCoverArt || isKept(options.profile, 'media.cover');
+  const keepCover = wantCover && hasCover && COVER_CAPABLE_EXTS.has(ext);
+  const keptTags = keptMediaTags(probe, options.profile);
+  const hasKeptTags = Object.keys(keptTags).length > 0;
+
+  const outputOptions = [
+    '-map_metadata -1', // 移除全局元数据
+    '-map_metadata:s -1', // 移除流元数据（OGG 的 Vorbis 注释挂在流上）
+    '-map_chapters -1', // 移除章节信息
+    '-fflags +bitexact', // 不写入 Lavf 编码器标记
+    '-flags:a +bitexact',
+    '-c copy', // 流拷贝，不重新编码
+    '-map 0:a',
+  ];
+  if (keepCover) {
+    outputOptions.push('-map 0:v', '-disposition:v attached_pic');
+  }
+  if (ext === '.mp3') {
+    // 保留封面或标签时仍需 ID3v2 承载，其余帧已被清空
+    outputOptions.push(`-id3v2_version ${keepCover || hasKeptTags ? 3 : 0}`, '-write_id3v1 0');
+  }
+
+  const command = ffmpeg(inputPath).outputOptions(outputOptions);
+  useMuxerFor(command, ext, outputPath);
+  for (const [name, value] of Object.entries(keptTags)) {
+    // 逐项传参，避免标签值中的空格被 fluent-ffmpeg 拆分
+    command.outputOptions('-metadata', `${name}=${value}`);
+    if (ext === '.ogg') command.outputOptions('-metadata:s:a:0', `${name}=${value}`);
+  }
+  await runFfmpeg(command, outputPath, options);
+
+  const tagLabel = TAG_LABELS[ext] ?? '音频标签';
+  const removed = [
+    hasKeptTags ? `${tagLabel} (保留 ${Object.keys(keptTags).join('、')})` : tagLabel,
+    '章节信息',
+    '编码器信息',
+  ];
+  if (hasCover && !keepCover) removed.push('封面图片');
+  return { removed, type: 'audio' };
+}
+
+/**
+ * ffmpeg 只能处理文件，压缩包内的音频先落地到临时目录再清理
+ */
+export async function cleanAudioBuffer(data: Buffer, ext: string, options: AudioCleanOptions = {}) {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'info-remover-'));
+  try {
+    const inputPath = path.join(dir, `input${ext}`);
+    const outputPath = path.join(dir, `output${ext}`);
+    await fs.promises.writeFile(inputPath, data);
+    // 条目进度无法换算为外层文件的进度，只传递取消信号
+    const { removed } = await processAudio(inputPath, outputPath, { ...options, onProgress: undefined });
+    return { buffer: await fs.promises.readFile(outputPath), removed };
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,158 @@
+import { processImage, cleanImageBuffer } from './imageProcessor';
+import { processRaw, cleanRawBuffer } from './rawProcessor';
+import { processPdf, cleanPdfBuffer } from './pdfProcessor';
+import { processOffice, cleanOfficeBuffer } from './officeProcessor';
+import { cleanCompoundFile } from './legacyOfficeProcessor';
+import { processOdf, cleanOdfBuffer } from './odfProcessor';
+import { processEpub, cleanEpubBuffer } from './epubProcessor';
+import { processZip, cleanZipBuffer } from './zipProcessor';
+import { processTar, cleanTarBuffer } from './tarProcessor';
+import { processSevenZip, cleanSevenZipBuffer } from './sevenZipProcessor';
+import { processVideo, cleanVideoBuffer } from './videoProcessor';
+import { processAudio, cleanAudioBuffer } from './audioProcessor';
+import {
+  inspectAudio,
+  inspectEpub,
+  inspectImage,
+  inspectOdf,
+  inspectOffice,
+  inspectPdf,
+  inspectRaw,
+  inspectSevenZip,
+  inspectTar,
+  inspectVideo,
+  inspectZip,
+} from '../metadataInspector';
+import { findMetadata } from '../outputVerifier';
+import { isLegacyOfficeExt } from '../formats';
+import type { MetadataProcessor } from '../processorRegistry';
+
+// 内置处理器。压缩包（ZIP/TAR/7z）的条目在处理时逐个清理，不提供整体校验
+
+const verify: MetadataProcessor['verify'] = (before, after, options, format) =>
+  findMetadata(format.category, format.ext, before, after, options);
+
+export const BUILTIN_PROCESSORS: MetadataProcessor[] = [
+  // RAW 的 MIME 同样以 image/ 开头，需排在普通图片之前
+  {
+    type: 'raw',
+    label: 'RAW',
+    category: 'raw',
+    exts: ['.dng', '.cr2', '.nef', '.arw'],
+    mimes: ['image/x-adobe-dng', 'image/x-canon-cr2', 'image/x-nikon-nef', 'image/x-sony-arw'],
+    inspect: (filePath) => inspectRaw(filePath),
+    clean: (input, output, options) => processRaw(input, output, options.profile),
+    cleanBuffer: async (_name, data, options) => cleanRawBuffer(data, options.profile),
+    verify,
+  },
+  {
+    type: 'image',
+    label: '图片',
+    category: 'image',
+    exts: ['.jpg', '.jpeg', '.png', '.webp', '.tiff', '.gif', '.avif', '.heic', '.heif'],
+    mimes: ['image/'],
+    inspect: (filePath) => inspectImage(filePath),
+    clean: (input, output, options) => processImage(input, output, options),
+    cleanBuffer: (_name, data, options, _depth, format) => cleanImageBuffer(data, format.ext, options),
+    verify,
+  },
+  {
+    type: 'pdf',
+    label: 'PDF',
+    category: 'pdf',
+    exts: ['.pdf'],
+    mimes: ['application/pdf'],
+    inspect: (filePath, _format, password) => inspectPdf(filePath, password),
+    clean: (input, output, options) => processPdf(input, output, options),
+    cleanBuffer: (_name, data, options) => cleanPdfBuffer(data, options),
+    verify,
+  },
+  // OOXML 与旧版 Office 由 formats 按容器结构识别，不按 MIME 匹配
+  {
+    type: 'office',
+    label: 'Office',
+    category: 'office',
+    exts: ['.docx', '.docm', '.xlsx', '.xlsm', '.pptx', '.pptm', '.doc', '.xls', '.ppt'],
+    inspect: inspectOffice,
+    clean: (input, output, options, format) => processOffice(input, output, options, format.ext),
+    cleanBuffer: async (_name, data, options, _depth, format) =>
+      isLegacyOfficeExt(format.ext) ? cleanCompoundFile(data, options.profile) : cleanOfficeBuffer(data, format.ext, options),
+    verify,
+  },
+  {
+    type: 'odf',
+    label: 'ODF',
+    category: 'odf',
+    exts: ['.odt', '.ods', '.odp'],
+    mimes: ['application/vnd.oasis.opendocument.'],
+    inspect: (filePath) => inspectOdf(filePath),
+    clean: (input, output, options) => processOdf(input, output, options.profile),
+    cleanBuffer: (_name, data, options) => cleanOdfBuffer(data, options.profile),
+    verify,
+  },
+  {
+    type: 'epub',
+    label: 'EPUB',
+    category: 'epub',
+    exts: ['.epub'],
+    mimes: ['application/epub+zip'],
+    inspect: (filePath) => inspectEpub(filePath),
+    clean: (input, output, options) => processEpub(input, output, options.profile),
+    cleanBuffer: (_name, data, options) => cleanEpubBuffer(data, options.profile),
+    verify,
+  },
+  {
+    type: 'zip',
+    label: 'ZIP',
+    category: 'zip',
+    exts: ['.zip'],
+    mimes: ['application/zip'],
+    inspect: (filePath) => inspectZip(filePath),
+    clean: (input, output, options) => processZip(input, output, options),
+    cleanBuffer: (_name, data, options, depth) => cleanZipBuffer(data, options, depth + 1),
+  },
+  {
+    type: 'tar',
+    label: 'TAR',
+    category: 'archive',
+    exts: ['.tar', '.tar.gz', '.tgz'],
+    mimes: ['application/x-tar'],
+    inspect: (filePath) => inspectTar(filePath),
+    clean: (input, output, options) => processTar(input, output, options),
+    cleanBuffer: (_name, data, options, depth) => cleanTarBuffer(data, options, depth + 1),
+  },
+  {
+    type: '7z',
+    label: '7z',
+    category: 'archive',
+    exts: ['.7z'],
+    mimes: ['application/x-7z-compressed'],
+    inspect: (filePath) => inspectSevenZip(filePath),
+    clean: (input, output, options) => processSevenZip(input, output, options),
+    cleanBuffer: (_name, data, options, depth) => cleanSevenZipBuffer(data, options, depth + 1),
+  },
+  {
+    type: 'video',
+    label: '视频',
+    category: 'video',
+    exts: ['.mp4', '.mkv', '.mov', '.avi', '.wmv', '.flv', '.webm'],
+    mimes: ['video/', 'application/vnd.ms-asf'],
+    group: 'ffmpeg',
+    inspect: (filePath) => inspectVideo(filePath),
+    clean: (input, output, options, format) => processVideo(input, output, options, format.ext),
+    cleanBuffer: (_name, data, options, _depth, format) => cleanVideoBuffer(data, format.ext, options),
+    verify,
+  },
+  {
+    type: 'audio',
+    label: '音频',
+    category: 'audio',
+    exts: ['.mp3', '.flac', '.m4a', '.wav', '.ogg'],
+    mimes: ['audio/'],
+    group: 'ffmpeg',
+    inspect: (filePath) => inspectAudio(filePath),
+    clean: (input, output, options, format) => processAudio(input, output, options, format.ext),
+    cleanBuffer: (_name, data, options, _depth, format) => cleanAudioBuffer(data, format.ext, options),
+    verify,
+  },
+];
@@ -0,0 +1,444 @@
+// 复合文档 (CFB / OLE2) 的最小读写实现，参见 [MS-CFB]
+// 读取时只支持在原有扇区内就地改写流内容；需要改变流大小时用 buildCompoundFile 整体重建
+
+const SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const HEADER_SIZE = 512;
+const DIR_ENTRY_SIZE = 128;
+const HEADER_DIFAT_COUNT = 109;
+
+const ENDOFCHAIN = 0xfffffffe;
+const FREESECT = 0xffffffff;
+const NOSTREAM = 0xffffffff;
+
+export const enum EntryType {
+  Empty = 0,
+  Storage = 1,
+  Stream = 2,
+  Root = 5,
+}
+
+export interface DirectoryEntry {
+  index: number;
+  name: string;
+  path: string;
+  type: EntryType;
+  startSector: number;
+  size: number;
+  createdAt?: Date;
+  modifiedAt?: Date;
+}
+
+const FILETIME_EPOCH_OFFSET = 11644473600000n;
+
+const readFiletime = (buf: Buffer, offset: number): Date | undefined => {
+  const ticks = buf.readBigUInt64LE(offset);
+  if (ticks === 0n) return undefined;
+  return new Date(Number(ticks / 10000n - FILETIME_EPOCH_OFFSET));
+};
+
+export const isCompoundFile = (data: Buffer) =>
+  data.length >= HEADER_SIZE && data.subarray(0, 8).equals(SIGNATURE);
+
+export class CompoundFile {
+  readonly entries: DirectoryEntry[] = [];
+
+  private readonly sectorShift: number;
+  private readonly miniSectorShift: number;
+  private readonly miniStreamCutoff: number;
+  private readonly fat: number[] = [];
+  private readonly miniFat: number[] = [];
+  private readonly dirSectors: number[];
+  private readonly miniStreamSectors: number[] = [];
+
+  constructor(private readonly data: Buffer) {
+    if (!isCompoundFile(data)) {
+      throw new Error('不是有效的复合文档 (OLE2) 文件');
+    }
+    this.sectorShift = data.readUInt16LE(0x1e);
+    this.miniSectorShift = data.readUInt16LE(0x20);
+    this.miniStreamCutoff = data.readUInt32LE(0x38);
+    if (this.sectorShift !== 9 && this.sectorShift !== 12) {
+      throw new Error('复合文档扇区大小无效');
+    }
+
+    this.readFat();
+    this.dirSectors = this.chain(data.readUInt32LE(0x30));
+    this.readMiniFat();
+    this.readDirectory();
+
+    const root = this.entries[0];
+    if (root && root.startSector !== ENDOFCHAIN) {
+      this.miniStreamSectors = this.chain(root.startSector);
+    }
+  }
+
+  private get sectorSize() {
+    return 1 << this.sectorShift;
+  }
+
+  private sectorOffset(sector: number) {
+    return (sector + 1) << this.sectorShift;
+  }
+
+  private chain(start: number): number[] {
+    const sectors: number[] = [];
+    const seen = new Set<number>();
+    let current = start;
+    while (current !== ENDOFCHAIN && current !== FREESECT) {
+      if (seen.has(current) || current >= this.fat.length) {
+        throw new Error('复合文档扇区链已损坏');
+      }
+      seen.add(current);
+      sectors.push(current);
+      current = this.fat[current];
+    }
+    return sectors;
+  }
+
+  private readFat() {
+    const fatSectorCount = this.data.readUInt32LE(0x2c);
+    const difat: number[] = [];
+    for (let i = 0; i < HEADER_DIFAT_COUNT; i++) {
+      difat.push(this.data.readUInt32LE(0x4c + i * 4));
+    }
+    // 超出头部 109 项的 DIFAT 存放在额外的扇区链中，每个扇区最后一项指向下一扇区
+    let difatSector = this.data.readUInt32LE(0x44);
+    const perSector = this.sectorSize / 4 - 1;
+    while (difatSector !== ENDOFCHAIN && difatSector !== FREESECT && difat.length < fatSectorCount) {
+      const base = this.sectorOffset(difatSector);
+      for (let i = 0; i < perSector; i++) {
+        difat.push(this.data.readUInt32LE(base + i * 4));
+      }
+      difatSector = this.data.readUInt32LE(base + perSector * 4);
+    }
+
+    for (const sector of difat.slice(0, fatSectorCount)) {
+      if (sector === FREESECT) continue;
+      const base = this.sectorOffset(sector);
+      for (let i = 0; i < this.sectorSize / 4; i++) {
+        this.fat.push(this.data.readUInt32LE(base + i * 4));
+      }
+    }
+  }
+
+  private readMiniFat() {
+    const start = this.data.readUInt32LE(0x3c);
+    if (start === ENDOFCHAIN || start === FREESECT) return;
+    for (const sector of this.chain(start)) {
+      const base = this.sectorOffset(sector);
+      for (let i = 0; i < this.sectorSize / 4; i++) {
+        this.miniFat.push(this.data.readUInt32LE(base + i * 4));
+      }
+    }
+  }
+
+  private entryOffset(index: number) {
+    const perSector = this.sectorSize / DIR_ENTRY_SIZE;
+    const sector = this.dirSectors[Math.floor(index / perSector)];
+    return this.sectorOffset(sector) + (index % perSector) * DIR_ENTRY_SIZE;
+  }
+
+  private readDirectory() {
+    const count = (this.dirSectors.length * this.sectorSize) / DIR_ENTRY_SIZE;
+    const raw: Array<{ left: number; right: number; child: number }> = [];
+    for (let i = 0; i < count; i++) {
+      const offset = this.entryOffset(i);
+      const nameLength = this.data.readUInt16LE(offset + 64);
+      const name = this.data
+        .toString('utf16le', offset, offset + Math.max(0, nameLength - 2))
+        .replace(/\0+$/, '');
+      this.entries.push({
+        index: i,
+        name,
+        path: name,
+        type: this.data.readUInt8(offset + 66) as EntryType,
+        startSector: this.data.readUInt32LE(offset + 116),
+        size: this.data.readUInt32LE(offset + 120),
+        createdAt: readFiletime(this.data, offset + 100),
+        modifiedAt: readFiletime(this.data, offset + 108),
+      });
+      raw.push({
+        left: this.data.readUInt32LE(offset + 68),
+        right: this.data.readUInt32LE(offset + 72),
+        child: this.data.readUInt32LE(offset + 76),
+      });
+    }
+
+    // 目录以红黑树组织，遍历树为每个条目生成完整路径
+    const visit = (index: number, parentPath: string, depth: number) => {
+      if (index === NOSTREAM || index >= this.entries.length || depth > count) return;
+      const entry = this.entries[index];
+      entry.path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+      visit(raw[index].left, parentPath, depth + 1);
+      visit(raw[index].right, parentPath, depth + 1);
+      if (entry.type === EntryType.Storage) {
+        visit(raw[index].child, entry.path, depth + 1);
+      }
+    };
+    if (this.entries.length > 0) {
+      visit(raw[0].child, '', 0);
+    }
+  }
+
+  streams(): DirectoryEntry[] {
+    return this.entries.filter((e) => e.type === EntryType.Stream);
+  }
+
+  find(path: string): DirectoryEntry | undefined {
+    return this.entries.find((e) => e.type !== EntryType.Empty && e.path === path);
+  }
+
+  /** 返回流在文件中占用的各段 [offset, length]，按流内顺序排列 */
+  private streamRanges(entry: DirectoryEntry): Array<[number, number]> {
+    if (entry.size < this.miniStreamCutoff) {
+      const miniSize = 1 << this.miniSectorShift;
+      const perSector = this.sectorSize / miniSize;
+      const ranges: Array<[number, number]> = [];
+      const seen = new Set<number>();
+      let mini = entry.startSector;
+      while (mini !== ENDOFCHAIN && mini !== FREESECT && ranges.length * miniSize < entry.size) {
+        if (seen.has(mini) || mini >= this.miniFat.length) {
+          throw new Error('复合文档迷你扇区链已损坏');
+        }
+        seen.add(mini);
+        const container = this.miniStreamSectors[Math.floor(mini / perSector)];
+        if (container === undefined) throw new Error('复合文档迷你流已损坏');
+        ranges.push([this.sectorOffset(container) + (mini % perSector) * miniSize, miniSize]);
+        mini = this.miniFat[mini];
+      }
+      return ranges;
+    }
+    return this.chain(entry.startSector).map((s) => [this.sectorOffset(s), this.sectorSize]);
+  }
+
+  readStream(entry: DirectoryEntry): Buffer {
+    const parts = this.streamRanges(entry).map(([offset, length]) =>
+      this.data.subarray(offset, Math.min(offset + length, this.data.length))
+    );
+    return Buffer.concat(parts).subarray(0, entry.size);
+  }
+
+  /**
+   * 在流原有的扇区内写入新内容，剩余空间以 0 填充。
+   * 流大小保持不变，避免在常规扇区与迷你扇区之间迁移
+   */
+  overwriteStream(entry: DirectoryEntry, content: Buffer) {
+    if (content.length > entry.size) {
+      throw new Error(`新内容超出流 ${entry.path} 的原有大小`);
+    }
+    let written = 0;
+    let remaining = entry.size;
+    for (const [offset, length] of this.streamRanges(entry)) {
+      const span = Math.min(length, remaining);
+      this.data.fill(0, offset, offset + span);
+      const chunk = content.subarray(written, written + span);
+      chunk.copy(this.data, offset);
+      written += chunk.length;
+      remaining -= span;
+    }
+  }
+
+  /** 清空所有目录条目的创建/修改时间 */
+  clearTimestamps(): number {
+    let cleared = 0;
+    for (const entry of this.entries) {
+      if (!entry.createdAt && !entry.modifiedAt) continue;
+      const offset = this.entryOffset(entry.index);
+      this.data.fill(0, offset + 100, offset + 116);
+      entry.createdAt = undefined;
+      entry.modifiedAt = undefined;
+      cleared++;
+    }
+    return cleared;
+  }
+
+  toBuffer(): Buffer {
+    return this.data;
+  }
+}
+
+const FATSECT = 0xfffffffd;
+const DIFSECT = 0xfffffffc;
+const WRITE_SECTOR_SIZE = 512;
+const MINI_SECTOR_SIZE = 64;
+const MINI_STREAM_CUTOFF = 4096;
+
+interface TreeNode {
+  name: string;
+  data?: Buffer;
+  children: TreeNode[];
+  index: number;
+}
+
+// 目录中同级条目按名称长度、再按大写后的名称排序
+const compareNames = (a: TreeNode, b: TreeNode) =>
+  a.name.length - b.name.length || (a.name.toUpperCase() < b.name.toUpperCase() ? -1 : 1);
+
+/**
+ * 以 512 字节扇区（版本 3）重新生成复合文档。streams 的键为以 "/" 分隔的流路径，
+ * 中间的存储目录自动创建；小于 4096 字节的流放入迷你流
+ */
+export function buildCompoundFile(streams: Map<string, Buffer>): Buffer {
+  const root: TreeNode = { name: 'Root Entry', children: [], index: 0 };
+  const nodes: TreeNode[] = [root];
+  for (const [streamPath, data] of streams) {
+    let parent = root;
+    const names = streamPath.split('/');
+    names.forEach((name, i) => {
+      const isStream = i === names.length - 1;
+      let node = parent.children.find((child) => child.name === name);
+      if (!node) {
+        node = { name, children: [], index: nodes.length };
+        nodes.push(node);
+        parent.children.push(node);
+      }
+      if (isStream) node.data = data;
+      parent = node;
+    });
+  }
+
+  // 迷你流与常规流的扇区分配
+  const miniStream: Buffer[] = [];
+  const miniFat: number[] = [];
+  const regular: Array<[TreeNode, number]> = [];
+  const starts = new Map<TreeNode, number>();
+  let regularSectors = 0;
+  for (const node of nodes) {
+    if (!node.data || node.data.length === 0) continue;
+    if (node.data.length < MINI_STREAM_CUTOFF) {
+      const count = Math.ceil(node.data.length / MINI_SECTOR_SIZE);
+      starts.set(node, miniFat.length);
+      for (let i = 0; i < count; i++) miniFat.push(i === count - 1 ? ENDOFCHAIN : miniFat.length + 1);
+      miniStream.push(node.data, Buffer.alloc(count * MINI_SECTOR_SIZE - node.data.length));
+    } else {
+      regular.push([node, regularSectors]);
+      regularSectors += Math.ceil(node.data.length / WRITE_SECTOR_SIZE);
+    }
+  }
+  const miniStreamData = Buffer.concat(miniStream);
+  const perSector = WRITE_SECTOR_SIZE / 4;
+  const miniFatSectors = Math.ceil(miniFat.length / perSector);
+  const dirSectors = Math.ceil(nodes.length / (WRITE_SECTOR_SIZE / DIR_ENTRY_SIZE));
+  const miniStreamSectors = Math.ceil(miniStreamData.length / WRITE_SECTOR_SIZE);
+  const dataSectors = miniFatSectors + dirSectors + miniStreamSectors + regularSectors;
+
+  // FAT 扇区数量依赖总扇区数（含 FAT 与 DIFAT 自身），迭代到稳定
+  let fatSectors = 1;
+  let difatSectors = 0;
+  for (;;) {
+    const needed = Math.ceil((dataSectors + fatSectors + difatSectors) / perSector);
+    const difatNeeded = Math.max(0, Math.ceil((needed - HEADER_DIFAT_COUNT) / (perSector - 1)));
+    if (needed === fatSectors && difatNeeded === difatSectors) break;
+    fatSectors = needed;
+    difatSectors = difatNeeded;
+  }
+
+  // 扇区布局：FAT、DIFAT、迷你 FAT、目录、迷你流、常规流
+  const fat: number[] = [];
+  const pushChain = (count: number) => {
+    const start = fat.length;
+    for (let i = 0; i < count; i++) fat.push(i === count - 1 ? ENDOFCHAIN : fat.length + 1);
+    return count > 0 ? start : ENDOFCHAIN;
+  };
+  for (let i = 0; i < fatSectors; i++) fat.push(FATSECT);
+  for (let i = 0; i < difatSectors; i++) fat.push(DIFSECT);
+  const miniFatStart = pushChain(miniFatSectors);
+  const dirStart = pushChain(dirSectors);
+  const miniStreamStart = pushChain(miniStreamSectors);
+  const regularBase = fat.length;
+  for (const [node] of regular) {
+    starts.set(node, pushChain(Math.ceil(node.data!.length / WRITE_SECTOR_SIZE)));
+  }
+  while (fat.length < fatSectors * perSector) fat.push(FREESECT);
+
+  const header = Buffer.alloc(HEADER_SIZE);
+  SIGNATURE.copy(header, 0);
+  header.writeUInt16LE(0x3e, 0x18);
+  header.writeUInt16LE(3, 0x1a);
+  header.writeUInt16LE(0xfffe, 0x1c);
+  header.writeUInt16LE(9, 0x1e);
+  header.writeUInt16LE(6, 0x20);
+  header.writeUInt32LE(fatSectors, 0x2c);
+  header.writeUInt32LE(dirStart, 0x30);
+  header.writeUInt32LE(MINI_STREAM_CUTOFF, 0x38);
+  header.writeUInt32LE(miniFatStart, 0x3c);
+  header.writeUInt32LE(miniFatSectors, 0x40);
+  header.writeUInt32LE(difatSectors > 0 ? fatSectors : ENDOFCHAIN, 0x44);
+  header.writeUInt32LE(difatSectors, 0x48);
+  for (let i = 0; i < HEADER_DIFAT_COUNT; i++) {
+    header.writeUInt32LE(i < fatSectors ? i : FREESECT, 0x4c + i * 4);
+  }
+
+  const u32Sectors = (values: number[], count: number) => {
+    const buf = Buffer.alloc(count * WRITE_SECTOR_SIZE, 0xff);
+    values.forEach((value, i) => buf.writeUInt32LE(value, i * 4));
+    return buf;
+  };
+  // DIFAT 扇区：每个扇区最后一项指向下一个 DIFAT 扇区
+  const difat = Buffer.alloc(difatSectors * WRITE_SECTOR_SIZE, 0xff);
+  for (let i = HEADER_DIFAT_COUNT; i < fatSectors; i++) {
+    const slot = i - HEADER_DIFAT_COUNT;
+    const sector = Math.floor(slot / (perSector - 1));
+    difat.writeUInt32LE(i, sector * WRITE_SECTOR_SIZE + (slot % (perSector - 1)) * 4);
+  }
+  for (let i = 0; i < difatSectors; i++) {
+    const next = i === difatSectors - 1 ? ENDOFCHAIN : fatSectors + i + 1;
+    difat.writeUInt32LE(next, i * WRITE_SECTOR_SIZE + (perSector - 1) * 4);
+  }
+
+  // 同级条目组织为平衡二叉树，全部标记为黑色
+  const left = new Array<number>(nodes.length).fill(NOSTREAM);
+  const right = new Array<number>(nodes.length).fill(NOSTREAM);
+  const child = new Array<number>(nodes.length).fill(NOSTREAM);
+  const balance = (sorted: TreeNode[]): number => {
+    if (sorted.length === 0) return NOSTREAM;
+    const mid = Math.floor(sorted.length / 2);
+    const node = sorted[mid];
+    left[node.index] = balance(sorted.slice(0, mid));
+    right[node.index] = balance(sorted.slice(mid + 1));
+    return node.index;
+  };
+  for (const node of nodes) {
+    if (node === root || !node.data) child[node.index] = balance([...node.children].sort(compareNames));
+  }
+
+  const directory = Buffer.alloc(dirSectors * WRITE_SECTOR_SIZE);
+  for (let i = nodes.length; i < dirSectors * (WRITE_SECTOR_SIZE / DIR_ENTRY_SIZE); i++) {
+    directory.fill(0xff, i * DIR_ENTRY_SIZE + 68, i * DIR_ENTRY_SIZE + 80);
+  }
+  for (const node of nodes) {
+    const offset = node.index * DIR_ENTRY_SIZE;
+    const name = node.name.slice(0, 31);
+    directory.write(name, offset, 'utf16le');
+    directory.writeUInt16LE((name.length + 1) * 2, offset + 64);
+    const type = node === root ? EntryType.Root : node.data ? EntryType.Stream : EntryType.Storage;
+    directory.writeUInt8(type, offset + 66);
+    directory.writeUInt8(1, offset + 67);
+    directory.writeUInt32LE(left[node.index], offset + 68);
+    directory.writeUInt32LE(right[node.index], offset + 72);
+    directory.writeUInt32LE(child[node.index], offset + 76);
+    if (node === root) {
+      directory.writeUInt32LE(miniStreamData.length > 0 ? miniStreamStart : ENDOFCHAIN, offset + 116);
+      directory.writeUInt32LE(miniStreamData.length, offset + 120);
+    } else if (node.data) {
+      directory.writeUInt32LE(starts.get(node) ?? ENDOFCHAIN, offset + 116);
+      directory.writeUInt32LE(node.data.length, offset + 120);
+    }
+  }
+
+  const pad = (buf: Buffer) => Buffer.concat([buf, Buffer.alloc((WRITE_SECTOR_SIZE - (buf.length % WRITE_SECTOR_SIZE)) % WRITE_SECTOR_SIZE)]);
+  const parts = [
+    header,
+    u32Sectors(fat, fatSectors),
+    difat,
+    u32Sectors(miniFat, miniFatSectors),
+    directory,
+    pad(miniStreamData),
+    ...regular.map(([node]) => pad(node.data!)),
+  ];
+  const result = Buffer.concat(parts);
+  if (result.length !== HEADER_SIZE + (regularBase + regularSectors) * WRITE_SECTOR_SIZE) {
+    throw new Error('复合文档扇区布局计算错误');
+  }
+  return result;
+}
@@ -0,0 +1,230 @@
+import { DOMParser, Element, Node, XMLSerializer } from '@xmldom/xmldom';
+import { RevisionPolicy } from '../types';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const ANONYMOUS_AUTHOR = 'Author';
+
+// 包裹被插入/删除内容的修订容器
+const INSERT_WRAPPERS = new Set(['ins', 'moveTo']);
+const DELETE_WRAPPERS = new Set(['del', 'moveFrom']);
+
+// 属性修订记录，子元素为修订前的属性
+const PROPERTY_CHANGES = new Set([
+  'rPrChange',
+  'pPrChange',
+  'sectPrChange',
+  'tblPrChange',
+  'tblPrExChange',
+  'tblGridChange',
+  'tcPrChange',
+  'trPrChange',
+  'numberingChange',
+]);
+
+// 拒绝属性修订时，父属性中需保留的、不属于被记录属性的子元素
+const PRESERVED_ON_RESTORE = new Set(['rPr', 'sectPr', 'ins', 'del', 'moveFrom', 'moveTo']);
+
+const RANGE_MARKERS = new Set([
+  'moveFromRangeStart',
+  'moveFromRangeEnd',
+  'moveToRangeStart',
+  'moveToRangeEnd',
+  'customXmlInsRangeStart',
+  'customXmlInsRangeEnd',
+  'customXmlDelRangeStart',
+  'customXmlDelRangeEnd',
+  'customXmlMoveFromRangeStart',
+  'customXmlMoveFromRangeEnd',
+  'customXmlMoveToRangeStart',
+  'customXmlMoveToRangeEnd',
+]);
+
+const CELL_MARKERS = new Set(['cellIns', 'cellDel', 'cellMerge']);
+
+// 快速判断是否值得解析整个部件
+const REVISION_HINT = /<w:(ins|del|moveFrom|moveTo|\w+Change|cellIns|cellDel|cellMerge)\b|w:author=/;
+
+const isW = (node: Node | null, localName?: string): node is Element =>
+  !!node &&
+  node.nodeType === Node.ELEMENT_NODE &&
+  (node as Element).namespaceURI === W_NS &&
+  (!localName || (node as Element).localName === localName);
+
+const wElements = (root: Element, names: Set<string>): Element[] =>
+  Array.from(root.getElementsByTagNameNS(W_NS, '*')).filter((el) => names.has(el.localName ?? ''));
+
+const childElements = (el: Element): Element[] =>
+  Array.from(el.childNodes).filter((n): n is Element => n.nodeType === Node.ELEMENT_NODE);
+
+function unwrap(el: Element) {
+  const parent = el.parentNode;
+  if (!parent) return;
+  while (el.firstChild) {
+    parent.insertBefore(el.firstChild, el);
+  }
+  parent.removeChild(el);
+}
+
+function detach(el: Element) {
+  el.parentNode?.removeChild(el);
+}
+
+const closest = (el: Element, localName: string): Element | null => {
+  let current = el.parentNode;
+  while (current) {
+    if (isW(current, localName)) return current;
+    current = current.parentNode;
+  }
+  return null;
+};
+
+/** 修订标记所在位置：段落标记 (pPr/rPr)、表格行 (trPr) 或普通内容 */
+function markerScope(el: Element): 'paragraph-mark' | 'row' | 'content' {
+  const parent = el.parentNode;
+  if (isW(parent, 'rPr') && isW(parent.parentNode, 'pPr')) return 'paragraph-mark';
+  if (isW(parent, 'trPr')) return 'row';
+  return 'content';
+}
+
+/** 将段落与其后一个段落合并，对应接受段落标记删除 / 拒绝段落标记插入 */
+function mergeWithNextParagraph(marker: Element) {
+  const paragraph = closest(marker, 'p');
+  detach(marker);
+  if (!paragraph) return;
+  let next = paragraph.nextSibling;
+  while (next && next.nodeType !== Node.ELEMENT_NODE) next = next.nextSibling;
+  if (!isW(next, 'p')) return;
+  for (const child of Array.from(next.childNodes)) {
+    if (isW(child, 'pPr')) continue;
+    paragraph.appendChild(child);
+  }
+  detach(next);
+}
+
+function restoreProperties(change: Element) {
+  const parent = change.parentNode as Element | null;
+  const previous = childElements(change)[0];
+  if (!parent) return;
+  if (change.localName === 'numberingChange' || !previous) {
+    detach(change);
+    return;
+  }
+  for (const child of childElements(parent)) {
+    if (child === change || PRESERVED_ON_RESTORE.has(child.localName ?? '')) continue;
+    detach(child);
+  }
+  const anchor = parent.firstChild;
+  for (const child of Array.from(previous.childNodes)) {
+    parent.insertBefore(child, anchor);
+  }
+  detach(change);
+}
+
+function renameDeletedText(root: Element) {
+  for (const el of wElements(root, new Set(['delText', 'delInstrText']))) {
+    const doc = el.ownerDocument!;
+    const name = el.localName === 'delText' ? 'w:t' : 'w:instrText';
+    const replacement = doc.createElementNS(W_NS, name);
+    for (let i = 0; i < el.attributes.length; i++) {
+      const attr = el.attributes.item(i)!;
+      replacement.setAttributeNS(attr.namespaceURI, attr.name, attr.value);
+    }
+    while (el.firstChild) replacement.appendChild(el.firstChild);
+    el.parentNode?.replaceChild(replacement, el);
+  }
+}
+
+function accept(root: Element) {
+  for (const change of wElements(root, PROPERTY_CHANGES)) detach(change);
+  for (const el of wElements(root, new Set([...INSERT_WRAPPERS, ...DELETE_WRAPPERS]))) {
+    if (!el.parentNode) continue;
+    const scope = markerScope(el);
+    const deleting = DELETE_WRAPPERS.has(el.localName ?? '');
+    if (scope === 'paragraph-mark') {
+      if (deleting) mergeWithNextParagraph(el);
+      else detach(el);
+    } else if (scope === 'row') {
+      const row = closest(el, 'tr');
+      if (deleting && row) detach(row);
+      else detach(el);
+    } else if (deleting) {
+      detach(el);
+    } else {
+      unwrap(el);
+    }
+  }
+  for (const el of wElements(root, CELL_MARKERS)) {
+    const cell = closest(el, 'tc');
+    if (el.localName === 'cellDel' && cell) detach(cell);
+    else detach(el);
+  }
+}
+
+function reject(root: Element) {
+  for (const change of wElements(root, PROPERTY_CHANGES)) {
+    if (change.parentNode) restoreProperties(change);
+  }
+  for (const el of wElements(root, new Set([...INSERT_WRAPPERS, ...DELETE_WRAPPERS]))) {
+    if (!el.parentNode) continue;
+    const scope = markerScope(el);
+    const inserting = INSERT_WRAPPERS.has(el.localName ?? '');
+    if (scope === 'paragraph-mark') {
+      if (inserting) mergeWithNextParagraph(el);
+      else detach(el);
+    } else if (scope === 'row') {
+      const row = closest(el, 'tr');
+      if (inserting && row) detach(row);
+      else detach(el);
+    } else if (inserting) {
+      detach(el);
+    } else {
+      unwrap(el);
+    }
+  }
+  renameDeletedText(root);
+  for (const el of wElements(root, CELL_MARKERS)) {
+    const cell = closest(el, 'tc');
+    if (el.localName === 'cellIns' && cell) detach(cell);
+    else detach(el);
+  }
+}
+
+function anonymize(root: Element) {
+  for (const el of [root, ...Array.from(root.getElementsByTagNameNS('*', '*'))]) {
+    if (el.hasAttributeNS(W_NS, 'author')) {
+      el.setAttributeNS(W_NS, 'w:author', ANONYMOUS_AUTHOR);
+    }
+    el.removeAttributeNS(W_NS, 'date');
+    // Word 2021 起额外写入的 UTC 时间 (w16du:dateUtc)
+    for (const attr of Array.from(el.attributes)) {
+      if (attr.localName === 'dateUtc') el.removeAttributeNode(attr);
+    }
+  }
+}
+
+/**
+ * 按策略处理 WordprocessingML 部件中的修订：
+ * accept 接受全部修订，reject 拒绝全部修订，anonymize 保留修订但抹去作者与时间。
+ * 返回 null 表示部件中没有需要处理的修订
+ */
+export function applyRevisionPolicy(xml: string, policy: RevisionPolicy): string | null {
+  if (!REVISION_HINT.test(xml)) return null;
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const root = doc.documentElement;
+  if (!root) return null;
+
+  const before = new XMLSerializer().serializeToString(doc);
+  if (policy === 'accept') {
+    accept(root);
+  } else if (policy === 'reject') {
+    reject(root);
+  } else {
+    anonymize(root);
+  }
+  if (policy !== 'anonymize') {
+    wElements(root, RANGE_MARKERS).forEach(detach);
+  }
+
+  const after = new XMLSerializer().serializeToString(doc);
+  return after === before ? null : after;
+}
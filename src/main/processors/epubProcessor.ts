@@ -0,0 +1,226 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import JSZip from 'jszip';
+import { cleanImageBuffer, hasImageMetadata } from './imageProcessor';
+import { MIMETYPE_ENTRY, rebuildWithMimetypeFirst } from './zipPackage';
+import { isKept } from '../profiles';
+import { MetadataProfile } from '../types';
+
+const CONTAINER_XML = 'META-INF/container.xml';
+const ENCRYPTION_XML = 'META-INF/encryption.xml';
+
+// 字体混淆算法：密钥由包的唯一标识符派生，只作用于文件开头的若干字节
+const IDPF_OBFUSCATION = 'http://www.idpf.org/2008/embedding';
+const ADOBE_OBFUSCATION = 'http://ns.adobe.com/pdf/enc#RC';
+const IMAGE_EXTS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.tiff', '.gif']);
+
+// EPUB 3 要求 dcterms:modified 存在，统一改写为固定时间
+export const NORMALIZED_MODIFIED = '1980-01-01T00:00:00Z';
+
+const elementPattern = (tag: string) =>
+  new RegExp(`<${tag}\\b[^>]*\\/>|<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'g');
+
+const attr = (tag: string, name: string) =>
+  tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+
+/**
+ * 从 container.xml 中找到 OPF 包文档路径
+ */
+export async function findOpfPath(zip: JSZip) {
+  const container = zip.file(CONTAINER_XML);
+  if (!container) return null;
+  const xml = await container.async('string');
+  const rootfile = xml.match(/<rootfile\b[^>]*>/)?.[0];
+  return rootfile ? attr(rootfile, 'full-path') ?? null : null;
+}
+
+/**
+ * 删除 dc:creator / dc:contributor / dc:date 及指向它们的 refines 元数据，
+ * 主标识符替换为随机 UUID（uid 为 null 时原样保留），其余标识符删除，dcterms:modified 改为固定时间；
+ * 配置保留作者时 dc:creator / dc:contributor 原样保留
+ */
+function cleanOpf(xml: string, uid: string | null, found: Set<string>, profile?: MetadataProfile) {
+  const removedIds = new Set<string>();
+  const uniqueId = packageUniqueId(xml);
+  let result = xml;
+
+  const drop = (tag: string, label: string) => {
+    result = result.replace(elementPattern(tag), (element) => {
+      const id = attr(element, 'id');
+      if (id) removedIds.add(id);
+      found.add(label);
+      return '';
+    });
+  };
+  if (!isKept(profile, 'document.author')) {
+    drop('dc:creator', 'dc:creator');
+    drop('dc:contributor', 'dc:contributor');
+  }
+  drop('dc:date', 'dc:date');
+
+  result = result.replace(elementPattern('dc:identifier'), (element) => {
+    const id = attr(element, 'id');
+    if (id && id === uniqueId) {
+      if (!uid) return element;
+      found.add('dc:identifier');
+      return `<dc:identifier id="${id}">urn:uuid:${uid}</dc:identifier>`;
+    }
+    found.add('dc:identifier');
+    if (id) removedIds.add(id);
+    return '';
+  });
+
+  // EPUB 3 中 role、file-as、identifier-type 等以 refines 指向被删除/替换的元素
+  result = result.replace(elementPattern('meta'), (element) => {
+    const refines = attr(element, 'refines');
+    if (refines && (removedIds.has(refines.slice(1)) || (uid && refines.slice(1) === uniqueId))) return '';
+    if (attr(element, 'property') === 'dcterms:modified') {
+      found.add('dcterms:modified');
+      return element.replace(/>[\s\S]*?<\/meta>$/, `>${NORMALIZED_MODIFIED}</meta>`);
+    }
+    return element;
+  });
+
+  return result;
+}
+
+const packageUniqueId = (opf: string) => attr(opf.match(/<package\b[^>]*>/)?.[0] ?? '', 'unique-identifier');
+
+/**
+ * 取出 OPF 中 unique-identifier 指向的标识符值
+ */
+function packageIdentifier(opf: string) {
+  const uniqueId = packageUniqueId(opf);
+  const element = opf.match(elementPattern('dc:identifier'))?.find((e) => attr(e, 'id') === uniqueId);
+  return element?.match(/>([\s\S]*?)<\/dc:identifier>$/)?.[1];
+}
+
+/**
+ * 字体混淆密钥：IDPF 为去除空白后的标识符的 SHA-1，作用于前 1040 字节；
+ * Adobe 为 urn:uuid 标识符的 16 字节 UUID，作用于前 1024 字节。无法派生时返回 null
+ */
+function obfuscationKey(algorithm: string, identifier: string) {
+  if (algorithm === IDPF_OBFUSCATION) {
+    return { key: createHash('sha1').update(identifier.replace(/[\u0020\t\r\n]/g, ''), 'utf8').digest(), length: 1040 };
+  }
+  const hex = identifier.trim().replace(/^urn:uuid:/i, '').replace(/-/g, '');
+  return /^[0-9a-f]{32}$/i.test(hex) ? { key: Buffer.from(hex, 'hex'), length: 1024 } : null;
+}
+
+/**
+ * 列出 encryption.xml 中以字体混淆算法处理的资源（路径相对于容器根目录）
+ */
+async function listObfuscatedResources(zip: JSZip) {
+  const file = zip.file(ENCRYPTION_XML);
+  if (!file) return [];
+  const xml = await file.async('string');
+  const resources: Array<{ name: string; algorithm: string }> = [];
+  for (const [block] of xml.matchAll(/<(?:[\w-]+:)?EncryptedData\b[\s\S]*?<\/(?:[\w-]+:)?EncryptedData>/g)) {
+    const algorithm = attr(block.match(/<(?:[\w-]+:)?EncryptionMethod\b[^>]*>/)?.[0] ?? '', 'Algorithm');
+    const uri = attr(block.match(/<(?:[\w-]+:)?CipherReference\b[^>]*>/)?.[0] ?? '', 'URI');
+    if (!uri || (algorithm !== IDPF_OBFUSCATION && algorithm !== ADOBE_OBFUSCATION)) continue;
+    resources.push({ name: decodeURIComponent(uri), algorithm });
+  }
+  return resources;
+}
+
+/**
+ * 标识符更换后，用新密钥重新混淆字体；任一字体无法重新混淆时返回 false，由调用方保留原标识符
+ */
+async function reobfuscateFonts(
+  zip: JSZip,
+  resources: Array<{ name: string; algorithm: string }>,
+  oldIdentifier: string | undefined,
+  newIdentifier: string
+) {
+  const rekeyed = new Map<string, Buffer>();
+  for (const { name, algorithm } of resources) {
+    const file = zip.file(name);
+    if (!file) continue;
+    const oldKey = oldIdentifier === undefined ? null : obfuscationKey(algorithm, oldIdentifier);
+    const newKey = obfuscationKey(algorithm, newIdentifier);
+    if (!oldKey || !newKey) return false;
+    const data = Buffer.from(await file.async('nodebuffer'));
+    const end = Math.min(oldKey.length, data.length);
+    for (let i = 0; i < end; i++) {
+      data[i] ^= oldKey.key[i % oldKey.key.length] ^ newKey.key[i % newKey.key.length];
+    }
+    rekeyed.set(name, data);
+  }
+  for (const [name, data] of rekeyed) zip.file(name, data);
+  return true;
+}
+
+/**
+ * EPUB 2 的 toc.ncx 中 dtb:uid 须与包标识符一致
+ */
+function updateNcxUid(xml: string, uid: string) {
+  return xml.replace(/(<meta\b[^>]*name=["']dtb:uid["'][^>]*content=["'])[^"']*(["'])/, `$1urn:uuid:${uid}$2`);
+}
+
+export async function cleanEpubBuffer(data: Buffer, profile?: MetadataProfile) {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (err) {
+    throw new Error('无法解析该 EPUB 文件，可能文件已损坏。');
+  }
+  if (!zip.file(MIMETYPE_ENTRY)) {
+    throw new Error('缺少 mimetype 条目，不是有效的 EPUB 文件');
+  }
+  const opfPath = await findOpfPath(zip);
+  const opf = opfPath ? zip.file(opfPath) : null;
+  if (!opfPath || !opf) {
+    throw new Error('未找到 OPF 包文档，不是有效的 EPUB 文件');
+  }
+
+  const removed: string[] = [];
+  const found = new Set<string>();
+  const opfXml = await opf.async('string');
+  // 混淆字体的密钥由唯一标识符派生：更换标识符时需用新密钥重新混淆，做不到时保留原标识符
+  let uid: string | null = randomUUID();
+  const obfuscated = await listObfuscatedResources(zip);
+  if (obfuscated.length > 0 && !(await reobfuscateFonts(zip, obfuscated, packageIdentifier(opfXml), `urn:uuid:${uid}`))) {
+    uid = null;
+  }
+  const cleanedOpf = cleanOpf(opfXml, uid, found, profile);
+  if (cleanedOpf !== opfXml) {
+    zip.file(opfPath, cleanedOpf);
+    removed.push(`${opfPath} (${Array.from(found).join('/')})`);
+  }
+
+  if (uid && found.has('dc:identifier')) {
+    for (const name of Object.keys(zip.files)) {
+      if (zip.files[name].dir || path.posix.extname(name).toLowerCase() !== '.ncx') continue;
+      const xml = await zip.file(name)!.async('string');
+      zip.file(name, updateNcxUid(xml, uid));
+    }
+  }
+
+  for (const name of Object.keys(zip.files)) {
+    const ext = path.posix.extname(name).toLowerCase();
+    if (zip.files[name].dir || !IMAGE_EXTS.has(ext)) continue;
+    const content = await zip.file(name)!.async('nodebuffer');
+    // 没有元数据的图片不重新编码，避免无谓的画质损失
+    if (!(await hasImageMetadata(content))) continue;
+    try {
+      const cleaned = await cleanImageBuffer(content, ext, { profile });
+      zip.file(name, cleaned.buffer);
+      removed.push(`${name} EXIF/GPS`);
+    } catch (err) {
+      console.error(`Failed to clean EPUB image ${name}:`, err);
+    }
+  }
+
+  // 规范要求 mimetype 为第一个条目且不压缩
+  const buffer = await rebuildWithMimetypeFirst(zip);
+  return { buffer, removed };
+}
+
+export async function processEpub(inputPath: string, outputPath: string, profile?: MetadataProfile) {
+  const data = await fs.promises.readFile(inputPath);
+  const { buffer, removed } = await cleanEpubBuffer(data, profile);
+  await fs.promises.writeFile(outputPath, buffer);
+  return { removed, type: 'epub' };
+}
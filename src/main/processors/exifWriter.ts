@@ -0,0 +1,127 @@
+import exifReader from 'exif-reader';
+import { MetadataKey, isKept } from '../profiles';
+import { MetadataProfile } from '../types';
+
+// TIFF 字段类型
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+const TAG_EXIF_IFD_POINTER = 0x8769;
+
+export interface ExifTag {
+  ifd: 'IFD0' | 'IFD2';
+  name: string;
+  tag: number;
+  type: 'ascii' | 'short';
+  value: string | number;
+}
+
+// 方向属于结构信息，决定图像如何显示，不论配置总是写回
+const ORIENTATION_TAG = 0x0112;
+
+// 可按配置保留的 EXIF 字段：配置键、exif-reader 中的节、标签名、所在 IFD（IFD2 为 Exif 子 IFD）、标签号
+export const KEEPABLE_EXIF_TAGS: Array<[MetadataKey, 'Image' | 'Photo', string, ExifTag['ifd'], number, ExifTag['type']]> = [
+  ['exif.copyright', 'Image', 'Copyright', 'IFD0', 0x8298, 'ascii'],
+  ['exif.artist', 'Image', 'Artist', 'IFD0', 0x013b, 'ascii'],
+  ['exif.camera', 'Image', 'Make', 'IFD0', 0x010f, 'ascii'],
+  ['exif.camera', 'Image', 'Model', 'IFD0', 0x0110, 'ascii'],
+  ['exif.datetime', 'Image', 'DateTime', 'IFD0', 0x0132, 'ascii'],
+  ['exif.datetime', 'Photo', 'DateTimeOriginal', 'IFD2', 0x9003, 'ascii'],
+  ['exif.datetime', 'Photo', 'DateTimeDigitized', 'IFD2', 0x9004, 'ascii'],
+];
+
+// exif-reader 将 EXIF 日期按 UTC 解析，原样格式化回 "YYYY:MM:DD HH:MM:SS"
+const formatExifValue = (value: unknown) =>
+  value instanceof Date
+    ? value.toISOString().slice(0, 19).replace(/-/g, ':').replace('T', ' ')
+    : String(value);
+
+/**
+ * 从原始 EXIF（TIFF 结构，可带 "Exif\0\0" 前缀）中取出需要写回的字段：
+ * 不为 1 的方向标签，以及配置允许保留的字段
+ */
+export function keptExifTags(exif: Buffer | undefined, profile?: MetadataProfile): ExifTag[] {
+  if (!exif) return [];
+  let parsed: Record<string, Record<string, unknown> | undefined>;
+  try {
+    parsed = exifReader(exif) as unknown as typeof parsed;
+  } catch {
+    return [];
+  }
+  const tags: ExifTag[] = [];
+  const orientation = Number(parsed.Image?.Orientation ?? 1);
+  if (orientation > 1) {
+    tags.push({ ifd: 'IFD0', name: 'Orientation', tag: ORIENTATION_TAG, type: 'short', value: orientation });
+  }
+  if (!profile) return tags;
+  for (const [key, section, name, ifd, tag, type] of KEEPABLE_EXIF_TAGS) {
+    const value = parsed[section]?.[name];
+    if (!isKept(profile, key) || value === undefined || value === null || value === '') continue;
+    tags.push({ ifd, name, tag, type, value: type === 'short' ? Number(value) : formatExifValue(value) });
+  }
+  return tags;
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Buffer;
+}
+
+function toEntry(tag: ExifTag): IfdEntry {
+  if (tag.type === 'short') {
+    const data = Buffer.alloc(2);
+    data.writeUInt16LE(Number(tag.value) & 0xffff);
+    return { tag: tag.tag, type: TYPE_SHORT, count: 1, data };
+  }
+  const data = Buffer.from(`${tag.value}\0`, 'utf8');
+  return { tag: tag.tag, type: TYPE_ASCII, count: data.length, data };
+}
+
+/**
+ * 序列化一个 IFD 及紧随其后的数据区，start 为该 IFD 在 TIFF 中的偏移
+ */
+function serializeIfd(entries: IfdEntry[], start: number) {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const headerSize = 2 + sorted.length * 12 + 4;
+  const head = Buffer.alloc(headerSize);
+  const extra: Buffer[] = [];
+  let dataOffset = start + headerSize;
+  head.writeUInt16LE(sorted.length, 0);
+  sorted.forEach((entry, i) => {
+    const pos = 2 + i * 12;
+    head.writeUInt16LE(entry.tag, pos);
+    head.writeUInt16LE(entry.type, pos + 2);
+    head.writeUInt32LE(entry.count, pos + 4);
+    if (entry.data.length <= 4) {
+      entry.data.copy(head, pos + 8);
+    } else {
+      head.writeUInt32LE(dataOffset, pos + 8);
+      // 值需按字对齐
+      const padded = Buffer.alloc(entry.data.length + (entry.data.length % 2));
+      entry.data.copy(padded);
+      extra.push(padded);
+      dataOffset += padded.length;
+    }
+  });
+  return Buffer.concat([head, ...extra]);
+}
+
+/**
+ * 生成只含给定字段的最小 EXIF（小端 TIFF 结构，不带 "Exif\0\0" 前缀）
+ */
+export function buildExifTiff(tags: ExifTag[]): Buffer {
+  const header = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+  const ifd0 = tags.filter((t) => t.ifd === 'IFD0').map(toEntry);
+  const exifIfd = tags.filter((t) => t.ifd === 'IFD2').map(toEntry);
+  if (exifIfd.length === 0) {
+    return Buffer.concat([header, serializeIfd(ifd0, 8)]);
+  }
+  const pointer: IfdEntry = { tag: TAG_EXIF_IFD_POINTER, type: TYPE_LONG, count: 1, data: Buffer.alloc(4) };
+  // 先以占位值计算 IFD0 长度，再写入 Exif 子 IFD 的真实偏移
+  const exifStart = 8 + serializeIfd([...ifd0, pointer], 8).length;
+  pointer.data.writeUInt32LE(exifStart);
+  return Buffer.concat([header, serializeIfd([...ifd0, pointer], 8), serializeIfd(exifIfd, exifStart)]);
+}
@@ -0,0 +1,334 @@
+// HEIF/HEIC/AVIF（ISO-BMFF）条目级清理：从 meta 盒中删除 Exif 与 XMP 条目并清零其数据，
+// 编码后的图像数据与其余条目的偏移量保持不变
+
+export interface HeifStripOptions {
+  // 需要写回的最小 EXIF（TIFF 结构），为空时删除 Exif 条目
+  exif?: Buffer | null;
+}
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+interface IlocExtent {
+  index: number;
+  offset: number;
+  length: number;
+}
+
+interface IlocItem {
+  id: number;
+  constructionMethod: number;
+  dataReferenceIndex: number;
+  baseOffset: number;
+  extents: IlocExtent[];
+}
+
+interface Iloc {
+  version: number;
+  offsetSize: number;
+  lengthSize: number;
+  baseOffsetSize: number;
+  indexSize: number;
+  items: IlocItem[];
+}
+
+const HEIF_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1', 'avif', 'avis']);
+
+// Exif 条目数据前的 exif_tiff_header_offset 指向 TIFF 头，此处固定为 "Exif\0\0" 之后
+const EXIF_ITEM_PREFIX = Buffer.from([0, 0, 0, 6, 0x45, 0x78, 0x69, 0x66, 0, 0]);
+
+function readBoxes(data: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = data.readUInt32BE(pos);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(data.readBigUInt64BE(pos + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < headerSize || pos + size > end) throw new Error('HEIF 盒子长度越界');
+    boxes.push({ type: data.toString('latin1', pos + 4, pos + 8), start: pos, headerSize, end: pos + size });
+    pos += size;
+  }
+  return boxes;
+}
+
+// FullBox 的 version / flags 之后才是内容
+const fullBoxBody = (box: Box) => box.start + box.headerSize + 4;
+
+function readUint(data: Buffer, pos: number, size: number) {
+  if (size === 0) return 0;
+  if (size === 2) return data.readUInt16BE(pos);
+  if (size === 4) return data.readUInt32BE(pos);
+  return Number(data.readBigUInt64BE(pos));
+}
+
+function writeUint(value: number, size: number) {
+  const buf = Buffer.alloc(size);
+  if (size === 2) buf.writeUInt16BE(value);
+  else if (size === 4) buf.writeUInt32BE(value);
+  else if (size === 8) buf.writeBigUInt64BE(BigInt(value));
+  return buf;
+}
+
+function makeBox(type: string, payload: Buffer) {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(payload.length + 8, 0);
+  head.write(type, 4, 'latin1');
+  return Buffer.concat([head, payload]);
+}
+
+function makeFullBox(type: string, data: Buffer, original: Box, payload: Buffer) {
+  const versionAndFlags = data.subarray(original.start + original.headerSize, fullBoxBody(original));
+  return makeBox(type, Buffer.concat([versionAndFlags, payload]));
+}
+
+export function isHeif(data: Buffer) {
+  if (data.length < 12 || data.toString('latin1', 4, 8) !== 'ftyp') return false;
+  const size = Math.min(data.readUInt32BE(0), data.length);
+  for (let pos = 8; pos + 4 <= size; pos += 4) {
+    // 跳过 minor_version
+    if (pos === 12) continue;
+    if (HEIF_BRANDS.has(data.toString('latin1', pos, pos + 4))) return true;
+  }
+  return false;
+}
+
+/**
+ * 返回需要删除的条目 ID 及其说明：Exif 条目与 content_type 为 RDF 的 mime 条目（XMP）
+ */
+function findMetadataItems(data: Buffer, iinf: Box) {
+  const version = data[iinf.start + iinf.headerSize];
+  const entriesStart = fullBoxBody(iinf) + (version === 0 ? 2 : 4);
+  const items = new Map<number, string>();
+  for (const infe of readBoxes(data, entriesStart, iinf.end)) {
+    if (infe.type !== 'infe') continue;
+    const infeVersion = data[infe.start + infe.headerSize];
+    if (infeVersion < 2) continue;
+    let pos = fullBoxBody(infe);
+    const id = infeVersion === 2 ? data.readUInt16BE(pos) : data.readUInt32BE(pos);
+    pos += (infeVersion === 2 ? 2 : 4) + 2;
+    const itemType = data.toString('latin1', pos, pos + 4);
+    pos += 4;
+    if (itemType === 'Exif') {
+      items.set(id, 'EXIF');
+    } else if (itemType === 'mime') {
+      const nameEnd = data.indexOf(0, pos);
+      const typeEnd = data.indexOf(0, nameEnd + 1);
+      if (nameEnd < 0 || typeEnd < 0 || typeEnd > infe.end) continue;
+      if (data.toString('utf8', nameEnd + 1, typeEnd) === 'application/rdf+xml') items.set(id, 'XMP');
+    }
+  }
+  return items;
+}
+
+function rebuildIinf(data: Buffer, iinf: Box, dropped: Set<number>) {
+  const version = data[iinf.start + iinf.headerSize];
+  const countSize = version === 0 ? 2 : 4;
+  const kept = readBoxes(data, fullBoxBody(iinf) + countSize, iinf.end).filter((infe) => {
+    if (infe.type !== 'infe' || data[infe.start + infe.headerSize] < 2) return true;
+    const pos = fullBoxBody(infe);
+    const id = data[infe.start + infe.headerSize] === 2 ? data.readUInt16BE(pos) : data.readUInt32BE(pos);
+    return !dropped.has(id);
+  });
+  const entries = kept.map((b) => data.subarray(b.start, b.end));
+  return makeFullBox('iinf', data, iinf, Buffer.concat([writeUint(kept.length, countSize), ...entries]));
+}
+
+function parseIloc(data: Buffer, box: Box): Iloc {
+  const version = data[box.start + box.headerSize];
+  let pos = fullBoxBody(box);
+  const offsetSize = data[pos] >> 4;
+  const lengthSize = data[pos] & 0x0f;
+  const baseOffsetSize = data[pos + 1] >> 4;
+  const indexSize = version === 1 || version === 2 ? data[pos + 1] & 0x0f : 0;
+  pos += 2;
+  const idSize = version < 2 ? 2 : 4;
+  const itemCount = readUint(data, pos, idSize);
+  pos += idSize;
+  const items: IlocItem[] = [];
+  for (let i = 0; i < itemCount; i++) {
+    const id = readUint(data, pos, idSize);
+    pos += idSize;
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = data.readUInt16BE(pos) & 0x0f;
+      pos += 2;
+    }
+    const dataReferenceIndex = data.readUInt16BE(pos);
+    pos += 2;
+    const baseOffset = readUint(data, pos, baseOffsetSize);
+    pos += baseOffsetSize;
+    const extentCount = data.readUInt16BE(pos);
+    pos += 2;
+    const extents: IlocExtent[] = [];
+    for (let j = 0; j < extentCount; j++) {
+      const index = readUint(data, pos, indexSize);
+      pos += indexSize;
+      const offset = readUint(data, pos, offsetSize);
+      pos += offsetSize;
+      const length = readUint(data, pos, lengthSize);
+      pos += lengthSize;
+      extents.push({ index, offset, length });
+    }
+    items.push({ id, constructionMethod, dataReferenceIndex, baseOffset, extents });
+  }
+  return { version, offsetSize, lengthSize, baseOffsetSize, indexSize, items };
+}
+
+function serializeIloc(data: Buffer, box: Box, iloc: Iloc) {
+  const idSize = iloc.version < 2 ? 2 : 4;
+  const parts: Buffer[] = [
+    Buffer.from([(iloc.offsetSize << 4) | iloc.lengthSize, (iloc.baseOffsetSize << 4) | iloc.indexSize]),
+    writeUint(iloc.items.length, idSize),
+  ];
+  for (const item of iloc.items) {
+    parts.push(writeUint(item.id, idSize));
+    if (iloc.version === 1 || iloc.version === 2) parts.push(writeUint(item.constructionMethod, 2));
+    parts.push(writeUint(item.dataReferenceIndex, 2), writeUint(item.baseOffset, iloc.baseOffsetSize));
+    parts.push(writeUint(item.extents.length, 2));
+    for (const extent of item.extents) {
+      parts.push(
+        writeUint(extent.index, iloc.indexSize),
+        writeUint(extent.offset, iloc.offsetSize),
+        writeUint(extent.length, iloc.lengthSize)
+      );
+    }
+  }
+  return makeFullBox('iloc', data, box, Buffer.concat(parts));
+}
+
+/**
+ * 删除以被删条目为起点的引用，并从其余引用的目标列表中移除被删条目
+ */
+function rebuildIref(data: Buffer, iref: Box, dropped: Set<number>) {
+  const idSize = data[iref.start + iref.headerSize] === 0 ? 2 : 4;
+  const refs: Buffer[] = [];
+  for (const ref of readBoxes(data, fullBoxBody(iref), iref.end)) {
+    let pos = ref.start + ref.headerSize;
+    const from = readUint(data, pos, idSize);
+    const count = data.readUInt16BE(pos + idSize);
+    pos += idSize + 2;
+    const targets: number[] = [];
+    for (let i = 0; i < count; i++) targets.push(readUint(data, pos + i * idSize, idSize));
+    const keptTargets = targets.filter((id) => !dropped.has(id));
+    if (dropped.has(from) || keptTargets.length === 0) continue;
+    refs.push(
+      makeBox(
+        ref.type,
+        Buffer.concat([
+          writeUint(from, idSize),
+          writeUint(keptTargets.length, 2),
+          ...keptTargets.map((id) => writeUint(id, idSize)),
+        ])
+      )
+    );
+  }
+  return makeFullBox('iref', data, iref, Buffer.concat(refs));
+}
+
+function rebuildIpma(data: Buffer, ipma: Box, dropped: Set<number>) {
+  const version = data[ipma.start + ipma.headerSize];
+  const flags = data.readUIntBE(ipma.start + ipma.headerSize + 1, 3);
+  const idSize = version < 1 ? 2 : 4;
+  const associationSize = flags & 1 ? 2 : 1;
+  let pos = fullBoxBody(ipma);
+  const entryCount = data.readUInt32BE(pos);
+  pos += 4;
+  const kept: Buffer[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    const start = pos;
+    const id = readUint(data, pos, idSize);
+    const count = data[pos + idSize];
+    pos += idSize + 1 + count * associationSize;
+    if (!dropped.has(id)) kept.push(data.subarray(start, pos));
+  }
+  return makeFullBox('ipma', data, ipma, Buffer.concat([writeUint(kept.length, 4), ...kept]));
+}
+
+/**
+ * 条目数据的绝对位置：construction_method 0 为文件偏移，1 为 meta 内 idat 的偏移
+ */
+function extentRanges(item: IlocItem, idat: Box | undefined, fileEnd: number) {
+  if (item.dataReferenceIndex !== 0) return [];
+  const origin =
+    item.constructionMethod === 0 ? 0 : item.constructionMethod === 1 && idat ? idat.start + idat.headerSize : null;
+  if (origin === null) return [];
+  return item.extents.map((e) => {
+    const start = origin + item.baseOffset + e.offset;
+    // 长度为 0 表示直到数据源末尾
+    const end = e.length === 0 ? (item.constructionMethod === 1 && idat ? idat.end : fileEnd) : start + e.length;
+    return { start, end: Math.min(end, fileEnd) };
+  });
+}
+
+export function stripHeif(input: Buffer, options: HeifStripOptions = {}) {
+  if (!isHeif(input)) throw new Error('不是有效的 HEIF 文件');
+  const data = Buffer.from(input);
+  const top = readBoxes(data, 0, data.length);
+  const meta = top.find((b) => b.type === 'meta');
+  if (!meta) throw new Error('HEIF 文件缺少 meta 盒');
+
+  const children = readBoxes(data, fullBoxBody(meta), meta.end);
+  const find = (type: string) => children.find((b) => b.type === type);
+  const iinf = find('iinf');
+  const ilocBox = find('iloc');
+  if (!iinf || !ilocBox) throw new Error('HEIF 文件缺少 iinf/iloc 盒');
+  const idat = find('idat');
+  const iloc = parseIloc(data, ilocBox);
+
+  const metadataItems = findMetadataItems(data, iinf);
+  const dropped = new Set(metadataItems.keys());
+  const removed = new Set(metadataItems.values());
+
+  // 先清零被删条目的数据，meta 内的 idat 也在此时一并处理
+  for (const item of iloc.items) {
+    if (!dropped.has(item.id)) continue;
+    for (const { start, end } of extentRanges(item, idat, data.length)) data.fill(0, start, end);
+  }
+
+  // 保留部分 EXIF 时，把最小 EXIF 写回原 Exif 条目的第一个数据段
+  const exifItem = iloc.items.find((item) => metadataItems.get(item.id) === 'EXIF');
+  if (options.exif && exifItem && exifItem.extents.length > 0) {
+    const payload = Buffer.concat([EXIF_ITEM_PREFIX, options.exif]);
+    const [range] = extentRanges(exifItem, idat, data.length);
+    if (range && range.end - range.start >= payload.length) {
+      payload.copy(data, range.start);
+      exifItem.extents = [{ ...exifItem.extents[0], length: payload.length }];
+      dropped.delete(exifItem.id);
+    }
+  }
+
+  const rebuilt = children.map((child) => {
+    if (child === iinf) return rebuildIinf(data, child, dropped);
+    if (child === ilocBox) {
+      return serializeIloc(data, child, { ...iloc, items: iloc.items.filter((item) => !dropped.has(item.id)) });
+    }
+    if (child.type === 'iref') return rebuildIref(data, child, dropped);
+    if (child.type === 'iprp') {
+      const props = readBoxes(data, child.start + child.headerSize, child.end).map((p) =>
+        p.type === 'ipma' ? rebuildIpma(data, p, dropped) : data.subarray(p.start, p.end)
+      );
+      return makeBox('iprp', Buffer.concat(props));
+    }
+    return data.subarray(child.start, child.end);
+  });
+  const newMeta = makeFullBox('meta', data, meta, Buffer.concat(rebuilt));
+
+  // meta 缩小的部分以 free 盒补齐，后续盒子与 iloc 中的文件偏移无需调整
+  const slack = meta.end - meta.start - newMeta.length;
+  if (slack < 0 || (slack > 0 && slack < 8)) throw new Error('无法在原位置重写 HEIF meta 盒');
+  const padding = slack > 0 ? makeBox('free', Buffer.alloc(slack - 8)) : Buffer.alloc(0);
+
+  return {
+    buffer: Buffer.concat([data.subarray(0, meta.start), newMeta, padding, data.subarray(meta.end)]),
+    removed: Array.from(removed),
+  };
+}
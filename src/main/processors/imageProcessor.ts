@@ -1,37 +1,129 @@
 import fs from 'fs';
 import path from 'path';
 import sharp from 'sharp';
+import { METADATA_KEYS, isKept, keptKeys } from '../profiles';
+import { ProcessOptions } from '../types';
+import { ExifTag, buildExifTiff, keptExifTags } from './exifWriter';
+import { stripLossless } from './losslessImage';
+import { isHeif } from './heifImage';
+import { UnsupportedFormatError } from '../errors';
 
-export async function processImage(inputPath: string, outputPath: string) {
-  const meta = await sharp(inputPath).metadata();
-  const iccProfile = typeof meta.icc === 'string' ? meta.icc : undefined;
-  const supportedFormats = new Set([
-    'jpeg',
-    'jpg',
-    'png',
-    'webp',
-    'tiff',
-    'gif',
-    'avif',
-    'heif',
-  ]);
-
-  const ext = path.parse(inputPath).ext.replace('.', '').toLowerCase();
+const supportedFormats = new Set([
+  'jpeg',
+  'jpg',
+  'png',
+  'webp',
+  'tiff',
+  'gif',
+  'avif',
+  'heif',
+  'heic',
+]);
+
+/**
+ * 判断图片是否带有可清除的 EXIF/XMP/IPTC 块；无法解码的图片返回 false
+ */
+export async function hasImageMetadata(data: Buffer) {
+  try {
+    const meta = await sharp(data).metadata();
+    return !!(meta.exif || meta.xmp || meta.iptc);
+  } catch {
+    return false;
+  }
+}
+
+export type ImageCleanOptions = Pick<ProcessOptions, 'profile' | 'applyOrientation'>;
+
+// sharp withExif 的参数格式：{ IFD0: { 标签名: 值 }, IFD2: {...} }
+const toSharpExif = (tags: ExifTag[]) =>
+  tags.reduce<Record<string, Record<string, string>>>((acc, t) => {
+    acc[t.ifd] = { ...acc[t.ifd], [t.name]: String(t.value) };
+    return acc;
+  }, {});
+
+const withKeptLabel = (label: string, kept: string[]) =>
+  kept.length > 0 && label.startsWith('EXIF') ? `${label} (保留 ${kept.join('、')})` : label;
+
+/**
+ * 在内存中清除图片元数据，ext 用于在无法从文件头识别格式时确定输出格式。
+ * JPEG/PNG/WebP/HEIF 直接改写段与块，图像数据不重新编码；其余格式或需要按方向旋转像素时
+ * 才回退到 sharp 重新编码。方向标签总是保留（重新编码时改为按方向旋转像素）；ICC 配置文件在字节级清理时保留，
+ * 重新编码时仅在 profile 允许时保留，否则转换到 sRGB；profile 允许保留的部分 EXIF 字段会写回输出图片
+ */
+export async function cleanImageBuffer(data: Buffer, ext: string, options: ImageCleanOptions = {}) {
+  const { profile } = options;
+  // sharp 未内置 HEVC 解码器时无法读取 HEIC，此时只按容器结构清理，不保留 EXIF 字段
+  const meta = await sharp(data)
+    .metadata()
+    .catch((err) => {
+      if (isHeif(data)) return { format: 'heif' } as sharp.Metadata;
+      throw err;
+    });
+
+  const extFormat = ext.replace('.', '').toLowerCase();
   const formatFromMeta = meta.format && supportedFormats.has(meta.format) ? meta.format : null;
-  const formatFromExt = supportedFormats.has(ext) ? ext : null;
-  const targetFormat = (formatFromMeta || formatFromExt || 'png') as unknown as sharp.AvailableFormatInfo;
+  const formatFromExt = supportedFormats.has(extFormat) ? extFormat : null;
+  const targetFormat = formatFromMeta || formatFromExt;
+  if (!targetFormat) {
+    throw new UnsupportedFormatError(
+      `不支持在原格式下清理 ${(meta.format ?? extFormat).toUpperCase()} 图片，需转换格式才能清除元数据，已跳过`
+    );
+  }
+
+  // 仅影响下方重新编码的回退路径，字节级清理总是保留 ICC
+  const keepIcc = isKept(profile, 'image.icc');
+  const orientation = meta.orientation ?? 1;
+  // HEIF 的方向由 irot/imir 属性描述，不随元数据删除，也无需旋转像素
+  const applyOrientation = !!options.applyOrientation && orientation > 1 && targetFormat !== 'heif';
+  const tags = keptExifTags(meta.exif, profile);
+  const kept = keptKeys(profile, 'exif.').map((key) => METADATA_KEYS[key]);
 
-  let pipeline = sharp(inputPath);
-  if (iccProfile) {
-    pipeline = pipeline.withMetadata({ icc: iccProfile });
+  // 需要旋转像素时只能重新编码，其余情况方向标签随最小 EXIF 原样写回
+  if (!applyOrientation) {
+    try {
+      const result = stripLossless(data, targetFormat, { exif: tags.length > 0 ? buildExifTiff(tags) : null });
+      if (result) {
+        return { buffer: result.buffer, removed: result.removed.map((label) => withKeptLabel(label, kept)) };
+      }
+    } catch (err) {
+      console.error('Lossless metadata strip failed, falling back to re-encoding:', err);
+    }
   }
 
-  pipeline = pipeline.toFormat(targetFormat);
+  let pipeline = sharp(data);
+  if (meta.icc && keepIcc) {
+    pipeline = pipeline.keepIccProfile();
+  }
+  // sharp 无法单独写回 Orientation 标签，改为按方向旋转像素，显示效果与原图一致
+  const rotate = orientation > 1;
+  if (rotate) {
+    pipeline = pipeline.rotate();
+  }
+  const exifTags = tags.filter((t) => t.name !== 'Orientation');
+  if (exifTags.length > 0) {
+    pipeline = pipeline.withExif(toSharpExif(exifTags));
+  }
+
+  pipeline = pipeline.toFormat(targetFormat as unknown as sharp.AvailableFormatInfo);
   const buffer = await pipeline.toBuffer();
+
+  return {
+    buffer,
+    removed: [
+      withKeptLabel('EXIF/IPTC/XMP/MakerNotes', kept),
+      '缩略图/自定义块',
+      ...(rotate ? ['方向标签 (已按方向旋转像素)'] : []),
+    ],
+  };
+}
+
+export async function processImage(inputPath: string, outputPath: string, options: ImageCleanOptions = {}) {
+  const data = await fs.promises.readFile(inputPath);
+  const { buffer, removed } = await cleanImageBuffer(data, path.parse(inputPath).ext, options);
   await fs.promises.writeFile(outputPath, new Uint8Array(buffer));
 
   return {
-    removed: ['EXIF/IPTC/XMP/MakerNotes', '缩略图/自定义块'],
+    removed,
     type: 'image',
   };
 }
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import { CompoundFile } from './compoundFile';
+import {
+  DOC_SUMMARY_INFORMATION,
+  PID_APPNAME,
+  PID_AUTHOR,
+  PID_COMMENTS,
+  PID_COMPANY,
+  PID_CREATE_DTM,
+  PID_KEYWORDS,
+  PID_LASTAUTHOR,
+  PID_LASTSAVE_DTM,
+  PID_MANAGER,
+  PID_REVNUMBER,
+  PID_SUBJECT,
+  PID_TITLE,
+  PropertyValue,
+  SUMMARY_INFORMATION,
+  buildPropertySet,
+  parsePropertySet,
+} from './olePropertySet';
+import { METADATA_KEYS, MetadataKey, isKept } from '../profiles';
+import { MetadataProfile } from '../types';
+
+export interface OleSummary {
+  title?: string;
+  subject?: string;
+  author?: string;
+  keywords?: string;
+  comments?: string;
+  lastSavedBy?: string;
+  revisionCount?: number;
+  application?: string;
+  createdAt?: Date;
+  lastSavedAt?: Date;
+  company?: string;
+  manager?: string;
+  customPropertyCount?: number;
+}
+
+const PROPERTY_STREAMS = new Set([SUMMARY_INFORMATION, DOC_SUMMARY_INFORMATION]);
+
+// 根目录 SummaryInformation 中可按配置保留的字段
+const KEEPABLE_SUMMARY_FIELDS: Array<[MetadataKey, number]> = [
+  ['document.title', PID_TITLE],
+  ['document.subject', PID_SUBJECT],
+  ['document.keywords', PID_KEYWORDS],
+  ['document.author', PID_AUTHOR],
+];
+
+const asText = (value?: PropertyValue) =>
+  typeof value === 'string' && value.trim() !== '' ? value : undefined;
+
+const asDate = (value?: PropertyValue) => (value instanceof Date ? value : undefined);
+
+/**
+ * 读取根目录下两个属性集流中的文档摘要信息
+ */
+export function readOleSummary(data: Buffer): OleSummary {
+  const cfb = new CompoundFile(Buffer.from(data));
+  const summary: OleSummary = {};
+
+  const info = cfb.find(SUMMARY_INFORMATION);
+  if (info) {
+    const props = parsePropertySet(cfb.readStream(info))[0]?.properties;
+    if (props) {
+      summary.title = asText(props.get(PID_TITLE));
+      summary.subject = asText(props.get(PID_SUBJECT));
+      summary.author = asText(props.get(PID_AUTHOR));
+      summary.keywords = asText(props.get(PID_KEYWORDS));
+      summary.comments = asText(props.get(PID_COMMENTS));
+      summary.lastSavedBy = asText(props.get(PID_LASTAUTHOR));
+      summary.application = asText(props.get(PID_APPNAME));
+      summary.createdAt = asDate(props.get(PID_CREATE_DTM));
+      summary.lastSavedAt = asDate(props.get(PID_LASTSAVE_DTM));
+      const revision = Number(asText(props.get(PID_REVNUMBER)));
+      summary.revisionCount = Number.isFinite(revision) && revision > 0 ? revision : undefined;
+    }
+  }
+
+  const docInfo = cfb.find(DOC_SUMMARY_INFORMATION);
+  if (docInfo) {
+    const sections = parsePropertySet(cfb.readStream(docInfo));
+    summary.company = asText(sections[0]?.properties.get(PID_COMPANY));
+    summary.manager = asText(sections[0]?.properties.get(PID_MANAGER));
+    // 第二节为用户自定义属性
+    if (sections[1] && sections[1].properties.size > 0) {
+      summary.customPropertyCount = sections[1].properties.size;
+    }
+  }
+  return summary;
+}
+
+/**
+ * 将复合文档中所有属性集流（包括嵌入对象中的）改写为空属性集，并清除目录时间戳；
+ * 根目录摘要中配置允许保留的字段会写回新的属性集
+ */
+export function cleanCompoundFile(data: Buffer, profile?: MetadataProfile) {
+  const cfb = new CompoundFile(Buffer.from(data));
+  const removed: string[] = [];
+
+  for (const entry of cfb.streams().filter((e) => PROPERTY_STREAMS.has(e.name))) {
+    let blank: Buffer = Buffer.alloc(0);
+    const kept = new Map<number, string>();
+    try {
+      const [section] = parsePropertySet(cfb.readStream(entry));
+      if (section && entry.path === SUMMARY_INFORMATION) {
+        for (const [key, pid] of KEEPABLE_SUMMARY_FIELDS) {
+          const value = asText(section.properties.get(pid));
+          if (value && isKept(profile, key)) kept.set(pid, value);
+        }
+      }
+      if (section) {
+        blank = buildPropertySet(section.fmtid, kept);
+        // 以 UTF-16 重新编码后可能超出原流大小，此时放弃保留
+        if (blank.length > entry.size) {
+          kept.clear();
+          blank = buildPropertySet(section.fmtid);
+        }
+      }
+    } catch {
+      // 已损坏的属性集直接整体清零
+    }
+    cfb.overwriteStream(entry, blank.length <= entry.size ? blank : Buffer.alloc(0));
+    const label = entry.path.replace(/\u0005/g, '');
+    const keptLabels = KEEPABLE_SUMMARY_FIELDS.filter(([, pid]) => kept.has(pid)).map(([key]) => METADATA_KEYS[key]);
+    removed.push(keptLabels.length > 0 ? `${label} (保留 ${keptLabels.join('、')})` : label);
+  }
+
+  if (cfb.clearTimestamps() > 0) {
+    removed.push('目录创建/修改时间');
+  }
+  return { buffer: cfb.toBuffer(), removed };
+}
+
+export async function processLegacyOffice(
+  inputPath: string,
+  outputPath: string,
+  profile?: MetadataProfile
+) {
+  const data = await fs.promises.readFile(inputPath);
+  let cleaned: ReturnType<typeof cleanCompoundFile>;
+  try {
+    cleaned = cleanCompoundFile(data, profile);
+  } catch (err) {
+    throw new Error('无法解析该 Office 文件，可能文件已损坏或不是 OLE2 复合文档。');
+  }
+  await fs.promises.writeFile(outputPath, cleaned.buffer);
+  return { removed: cleaned.removed, type: 'office' };
+}
@@ -0,0 +1,267 @@
+import zlib from 'zlib';
+import { stripHeif } from './heifImage';
+
+// 字节级清理 JPEG / PNG / WebP / HEIF：只增删元数据段与块，图像数据原样保留
+
+export interface LosslessOptions {
+  // ICC 配置文件决定像素颜色的解释方式，字节级清理无法转换颜色，默认保留
+  keepIcc?: boolean;
+  // 需要写回的最小 EXIF（TIFF 结构），为空时不写入 EXIF
+  exif?: Buffer | null;
+}
+
+export interface LosslessResult {
+  buffer: Buffer;
+  removed: string[];
+}
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+const TRAILING_DATA = 'EOF 之后的附加数据';
+
+const keepsIcc = (options: LosslessOptions) => options.keepIcc !== false;
+
+const startsWith = (data: Buffer, offset: number, text: string) =>
+  data.toString('latin1', offset, offset + text.length) === text;
+
+function segment(marker: number, payload: Buffer) {
+  const head = Buffer.alloc(4);
+  head.writeUInt8(0xff, 0);
+  head.writeUInt8(marker, 1);
+  head.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([head, payload]);
+}
+
+/**
+ * 判断 APPn / COM 段是否保留：JFIF 头、Adobe 颜色变换标记与 ICC 配置文件（除非显式不保留）
+ */
+function classifyJpegSegment(marker: number, data: Buffer, start: number, options: LosslessOptions) {
+  const payload = start + 4;
+  if (marker === 0xe0) {
+    return startsWith(data, payload, 'JFIF\0') ? null : 'APP0 扩展 (JFXX 缩略图)';
+  }
+  if (marker === 0xe1) {
+    if (startsWith(data, payload, 'Exif\0')) return 'EXIF (APP1)';
+    if (startsWith(data, payload, 'http://ns.adobe.com/')) return 'XMP (APP1)';
+    return 'APP1 私有数据';
+  }
+  if (marker === 0xe2) {
+    if (startsWith(data, payload, 'ICC_PROFILE\0')) return keepsIcc(options) ? null : 'ICC 配置文件 (APP2)';
+    if (startsWith(data, payload, 'MPF\0')) return '多图索引 (MPF)';
+    return 'APP2 私有数据';
+  }
+  if (marker === 0xed) return 'IPTC/Photoshop (APP13)';
+  if (marker === 0xee) return startsWith(data, payload, 'Adobe') ? null : 'APP14 私有数据';
+  if (marker === 0xfe) return 'COM 注释';
+  if (marker >= 0xe3 && marker <= 0xef) return `APP${marker - 0xe0} 厂商数据`;
+  return null;
+}
+
+/**
+ * 跳过 SOS 之后的熵编码数据，返回下一个标记的位置
+ */
+function skipEntropyData(data: Buffer, start: number) {
+  let i = start;
+  while (i < data.length - 1) {
+    if (data[i] === 0xff) {
+      const next = data[i + 1];
+      // 0xFF00 为字节填充，0xFFD0-D7 为 RST 标记，0xFFFF 为填充字节
+      if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7) && next !== 0xff) return i;
+    }
+    i++;
+  }
+  return data.length;
+}
+
+export function stripJpeg(data: Buffer, options: LosslessOptions = {}): LosslessResult {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    throw new Error('不是有效的 JPEG 文件');
+  }
+  const removed = new Set<string>();
+  const parts: Buffer[] = [];
+  let insertAt = 0;
+  let pos = 2;
+  let ended = false;
+
+  while (pos < data.length) {
+    if (data[pos] !== 0xff) throw new Error('JPEG 结构损坏');
+    // 标记前允许有多个 0xFF 填充字节
+    while (data[pos + 1] === 0xff) pos++;
+    const marker = data[pos + 1];
+    if (marker === 0xd9) {
+      parts.push(data.subarray(pos, pos + 2));
+      pos += 2;
+      ended = true;
+      break;
+    }
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      parts.push(data.subarray(pos, pos + 2));
+      pos += 2;
+      continue;
+    }
+    const length = data.readUInt16BE(pos + 2);
+    const end = pos + 2 + length;
+    if (end > data.length) throw new Error('JPEG 段长度越界');
+
+    const label = classifyJpegSegment(marker, data, pos, options);
+    if (label) {
+      removed.add(label);
+    } else {
+      parts.push(data.subarray(pos, end));
+      // 新的 EXIF 段放在 JFIF 头之后
+      if (marker === 0xe0 && parts.length === 1) insertAt = 1;
+    }
+    pos = end;
+    if (marker === 0xda) {
+      const next = skipEntropyData(data, pos);
+      parts.push(data.subarray(pos, next));
+      pos = next;
+    }
+  }
+  if (!ended) throw new Error('JPEG 缺少 EOI 标记');
+  if (pos < data.length) removed.add(TRAILING_DATA);
+
+  if (options.exif) {
+    parts.splice(insertAt, 0, segment(0xe1, Buffer.concat([EXIF_HEADER, options.exif])));
+  }
+  return { buffer: Buffer.concat([data.subarray(0, 2), ...parts]), removed: Array.from(removed) };
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// 影响图像解码与显示的块，其余辅助块（文本、时间、EXIF、私有块）一律删除
+const PNG_KEPT_CHUNKS = new Set([
+  'IHDR', 'PLTE', 'IDAT', 'IEND', 'tRNS', 'gAMA', 'cHRM', 'sRGB', 'sBIT', 'bKGD', 'pHYs',
+  'hIST', 'sPLT', 'acTL', 'fcTL', 'fdAT', 'cICP', 'mDCv', 'cLLi',
+]);
+
+const PNG_CHUNK_LABELS: Record<string, string> = {
+  tEXt: '文本块 (tEXt/zTXt/iTXt)',
+  zTXt: '文本块 (tEXt/zTXt/iTXt)',
+  iTXt: '文本块 (tEXt/zTXt/iTXt)',
+  eXIf: 'EXIF (eXIf)',
+  tIME: '修改时间 (tIME)',
+  iCCP: 'ICC 配置文件 (iCCP)',
+};
+
+function pngChunk(type: string, payload: Buffer) {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(payload.length, 0);
+  head.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(Buffer.concat([head.subarray(4), payload])) >>> 0);
+  return Buffer.concat([head, payload, crc]);
+}
+
+export function stripPng(data: Buffer, options: LosslessOptions = {}): LosslessResult {
+  if (data.length < 8 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('不是有效的 PNG 文件');
+  }
+  const removed = new Set<string>();
+  const parts: Buffer[] = [PNG_SIGNATURE];
+  let exifInserted = !options.exif;
+  let pos = 8;
+  let ended = false;
+
+  while (pos + 12 <= data.length) {
+    const length = data.readUInt32BE(pos);
+    const type = data.toString('latin1', pos + 4, pos + 8);
+    const end = pos + 12 + length;
+    if (end > data.length) throw new Error('PNG 块长度越界');
+
+    // eXIf 须位于 IDAT 之前
+    if (!exifInserted && (type === 'IDAT' || type === 'IEND')) {
+      parts.push(pngChunk('eXIf', options.exif!));
+      exifInserted = true;
+    }
+    const kept = PNG_KEPT_CHUNKS.has(type) || (type === 'iCCP' && keepsIcc(options));
+    if (kept) parts.push(data.subarray(pos, end));
+    else removed.add(PNG_CHUNK_LABELS[type] ?? `私有块 (${type})`);
+    pos = end;
+    if (type === 'IEND') {
+      ended = true;
+      break;
+    }
+  }
+  if (!ended) throw new Error('PNG 缺少 IEND 块');
+  if (pos < data.length) removed.add(TRAILING_DATA);
+  return { buffer: Buffer.concat(parts), removed: Array.from(removed) };
+}
+
+const WEBP_KEPT_CHUNKS = new Set(['VP8 ', 'VP8L', 'VP8X', 'ALPH', 'ANIM', 'ANMF']);
+
+// VP8X 头中的特性标志位
+const VP8X_ICC = 0x20;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+const WEBP_CHUNK_LABELS: Record<string, string> = {
+  EXIF: 'EXIF',
+  'XMP ': 'XMP',
+  ICCP: 'ICC 配置文件',
+};
+
+function riffChunk(fourcc: string, payload: Buffer) {
+  const head = Buffer.alloc(8);
+  head.write(fourcc, 0, 'latin1');
+  head.writeUInt32LE(payload.length, 4);
+  return Buffer.concat([head, payload, Buffer.alloc(payload.length % 2)]);
+}
+
+export function stripWebp(data: Buffer, options: LosslessOptions = {}): LosslessResult {
+  if (data.length < 12 || !startsWith(data, 0, 'RIFF') || !startsWith(data, 8, 'WEBP')) {
+    throw new Error('不是有效的 WebP 文件');
+  }
+  const removed = new Set<string>();
+  const parts: Buffer[] = [];
+  const riffEnd = Math.min(data.length, 8 + data.readUInt32LE(4));
+  let vp8x: Buffer | null = null;
+  let pos = 12;
+
+  while (pos + 8 <= riffEnd) {
+    const fourcc = data.toString('latin1', pos, pos + 4);
+    const size = data.readUInt32LE(pos + 4);
+    const end = pos + 8 + size + (size % 2);
+    if (pos + 8 + size > riffEnd) throw new Error('WebP 块长度越界');
+    const kept = WEBP_KEPT_CHUNKS.has(fourcc) || (fourcc === 'ICCP' && keepsIcc(options));
+    if (kept) {
+      // VP8X 需要改写标志位，复制一份避免修改输入
+      const chunk = Buffer.from(data.subarray(pos, Math.min(end, riffEnd)));
+      if (fourcc === 'VP8X') vp8x = chunk;
+      parts.push(chunk);
+    } else {
+      removed.add(WEBP_CHUNK_LABELS[fourcc] ?? `私有块 (${fourcc.trim()})`);
+    }
+    pos = end;
+  }
+  if (riffEnd < data.length) removed.add(TRAILING_DATA);
+
+  // 简单格式（无 VP8X）不能携带 EXIF，也就无需写回
+  if (vp8x) {
+    let flags = vp8x[8] & ~(VP8X_EXIF | VP8X_XMP);
+    if (!keepsIcc(options)) flags &= ~VP8X_ICC;
+    if (options.exif) {
+      parts.push(riffChunk('EXIF', options.exif));
+      flags |= VP8X_EXIF;
+    }
+    vp8x[8] = flags;
+  }
+
+  const body = Buffer.concat(parts);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'latin1');
+  return { buffer: Buffer.concat([header, body]), removed: Array.from(removed) };
+}
+
+/**
+ * 按格式选择字节级清理方式，不支持的格式返回 null 由调用方回退到重新编码
+ */
+export function stripLossless(data: Buffer, format: string | undefined, options: LosslessOptions = {}) {
+  if (format === 'jpeg' || format === 'jpg') return stripJpeg(data, options);
+  if (format === 'png') return stripPng(data, options);
+  if (format === 'webp') return stripWebp(data, options);
+  // HEIF 的 ICC 以 colr 属性存在，属于解码所需信息，原样保留
+  if (format === 'heif' || format === 'heic' || format === 'avif') return stripHeif(data, options);
+  return null;
+}
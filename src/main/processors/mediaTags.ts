@@ -0,0 +1,90 @@
+import path from 'path';
+import ffmpeg, { FfmpegCommand, FfprobeData } from 'fluent-ffmpeg';
+import { MetadataKey, isKept } from '../profiles';
+import { MetadataProfile, ProcessOptions } from '../types';
+import { CancelledError } from '../errors';
+
+// ffprobe 标签名（小写）与保留配置键的对应关系
+export const KEEPABLE_MEDIA_TAGS: Record<string, MetadataKey> = {
+  title: 'media.title',
+  artist: 'media.artist',
+  album_artist: 'media.artist',
+  copyright: 'media.copyright',
+};
+
+// 容器扩展名对应的 ffmpeg muxer
+const MUXERS: Record<string, string> = {
+  '.mp3': 'mp3',
+  '.flac': 'flac',
+  '.m4a': 'ipod',
+  '.wav': 'wav',
+  '.ogg': 'ogg',
+  '.mp4': 'mp4',
+  '.mkv': 'matroska',
+  '.mov': 'mov',
+  '.avi': 'avi',
+  '.wmv': 'asf',
+  '.flv': 'flv',
+  '.webm': 'webm',
+};
+
+export function probeMedia(inputPath: string) {
+  return new Promise<FfprobeData | null>((resolve) => {
+    ffmpeg.ffprobe(inputPath, (err, data) => resolve(err ? null : data));
+  });
+}
+
+/**
+ * 取出配置允许保留的全局/音频流标签，清理时以 -metadata 重新写入
+ */
+export function keptMediaTags(data: FfprobeData | null, profile?: MetadataProfile) {
+  const kept: Record<string, string> = {};
+  if (!data || !profile) return kept;
+  const audioStream = data.streams.find((s) => s.codec_type === 'audio');
+  for (const source of [data.format.tags, audioStream?.tags]) {
+    for (const [name, value] of Object.entries(source ?? {})) {
+      const key = KEEPABLE_MEDIA_TAGS[name.toLowerCase()];
+      if (key && isKept(profile, key) && String(value).trim() !== '') {
+        kept[name.toLowerCase()] = String(value);
+      }
+    }
+  }
+  return kept;
+}
+
+/**
+ * 文件名与实际容器不符时（如改名为 .mp3 的 FLAC），按识别出的格式指定 muxer，
+ * 否则 ffmpeg 会按输出文件名选择错误的容器
+ */
+export function useMuxerFor(command: FfmpegCommand, ext: string, outputPath: string) {
+  if (MUXERS[ext] && ext !== path.extname(outputPath).toLowerCase()) command.format(MUXERS[ext]);
+}
+
+/**
+ * 执行 ffmpeg 并转发进度；取消时结束 ffmpeg 进程，未写完的输出由调用方删除
+ */
+export function runFfmpeg(
+  command: FfmpegCommand,
+  outputPath: string,
+  options: Pick<ProcessOptions, 'signal' | 'onProgress'> = {}
+) {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) return Promise.reject(new CancelledError());
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => command.kill('SIGKILL');
+    signal?.addEventListener('abort', onAbort, { once: true });
+    command
+      .on('progress', (progress: { percent?: number }) => {
+        if (progress.percent !== undefined) onProgress?.(Math.min(1, Math.max(0, progress.percent / 100)));
+      })
+      .on('end', () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      })
+      .on('error', (err) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(signal?.aborted ? new CancelledError() : err);
+      })
+      .save(outputPath);
+  });
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import JSZip from 'jszip';
+import { MIMETYPE_ENTRY, rebuildWithMimetypeFirst } from './zipPackage';
+import { MetadataKey, isKept } from '../profiles';
+import { MetadataProfile } from '../types';
+
+const META_XML = 'meta.xml';
+const MANIFEST_XML = 'META-INF/manifest.xml';
+const THUMBNAIL_PREFIX = 'Thumbnails/';
+
+// 批注与修订记录可能出现在正文与样式（页眉/页脚）中
+const CONTENT_PARTS = ['content.xml', 'styles.xml'];
+
+const CONTENT_PATTERNS: Array<[RegExp, string]> = [
+  [/<office:annotation\b[^>]*\/>|<office:annotation\b[^>]*>[\s\S]*?<\/office:annotation>/g, '批注'],
+  [/<office:annotation-end\b[^>]*\/>/g, '批注'],
+  [/<text:tracked-changes\b[^>]*\/>|<text:tracked-changes\b[^>]*>[\s\S]*?<\/text:tracked-changes>/g, '修订记录'],
+  [/<table:tracked-changes\b[^>]*\/>|<table:tracked-changes\b[^>]*>[\s\S]*?<\/table:tracked-changes>/g, '修订记录'],
+  [/<text:change(?:-start|-end)?\b[^>]*\/>/g, '修订标记'],
+];
+
+// office:meta 中可按配置保留的字段，dc:creator 为最后修改人，不随作者保留
+export const KEEPABLE_META_FIELDS: Array<[MetadataKey, string]> = [
+  ['document.title', 'dc:title'],
+  ['document.subject', 'dc:subject'],
+  ['document.keywords', 'meta:keyword'],
+  ['document.language', 'dc:language'],
+  ['document.author', 'meta:initial-creator'],
+  ['document.application', 'meta:generator'],
+];
+
+/**
+ * 清空 office:meta 下的全部字段（generator、initial-creator、editing-cycles 等），
+ * 保留根元素及其命名空间声明，以及配置允许保留的字段
+ */
+function cleanMeta(xml: string, profile?: MetadataProfile) {
+  const body = xml.match(/<office:meta\b[^>]*>([\s\S]*?)<\/office:meta>/)?.[1] ?? '';
+  const kept = KEEPABLE_META_FIELDS.filter(([key]) => isKept(profile, key)).flatMap(
+    ([, tag]) => body.match(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'g')) ?? []
+  );
+  const meta = kept.length > 0 ? `<office:meta>${kept.join('')}</office:meta>` : '<office:meta/>';
+  return xml
+    .replace(/<office:meta\b[^>]*>[\s\S]*?<\/office:meta>/, meta)
+    .replace(/<office:meta\b[^>]*\/>/, meta);
+}
+
+function cleanContent(xml: string, found: Set<string>) {
+  let result = xml;
+  for (const [pattern, label] of CONTENT_PATTERNS) {
+    const next = result.replace(pattern, '');
+    if (next !== result) found.add(label);
+    result = next;
+  }
+  return result;
+}
+
+function removeManifestEntries(xml: string, prefix: string) {
+  return xml.replace(/<manifest:file-entry\b[^>]*\/>/g, (entry) => {
+    const fullPath = entry.match(/manifest:full-path="([^"]*)"/)?.[1] ?? '';
+    return fullPath.startsWith(prefix) ? '' : entry;
+  });
+}
+
+export async function cleanOdfBuffer(data: Buffer, profile?: MetadataProfile) {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (err) {
+    throw new Error('无法解析该 OpenDocument 文件，可能文件已损坏。');
+  }
+  const removed: string[] = [];
+
+  if (!zip.file(MIMETYPE_ENTRY)) {
+    throw new Error('缺少 mimetype 条目，不是有效的 OpenDocument 文件');
+  }
+
+  const meta = zip.file(META_XML);
+  if (meta) {
+    const xml = await meta.async('string');
+    const cleaned = cleanMeta(xml, profile);
+    if (cleaned !== xml) {
+      removed.push('meta.xml (作者/生成程序/编辑次数/时间)');
+      zip.file(META_XML, cleaned);
+    }
+  }
+
+  const thumbnails = Object.keys(zip.files).filter((f) => f.startsWith(THUMBNAIL_PREFIX));
+  if (thumbnails.some((f) => !zip.files[f].dir)) {
+    removed.push('Thumbnails/thumbnail.png');
+  }
+  thumbnails.forEach((f) => zip.remove(f));
+
+  const manifest = zip.file(MANIFEST_XML);
+  if (manifest && thumbnails.length > 0) {
+    const xml = await manifest.async('string');
+    zip.file(MANIFEST_XML, removeManifestEntries(xml, THUMBNAIL_PREFIX));
+  }
+
+  for (const part of CONTENT_PARTS) {
+    const file = zip.file(part);
+    if (!file) continue;
+    const found = new Set<string>();
+    const xml = await file.async('string');
+    const cleaned = cleanContent(xml, found);
+    if (cleaned !== xml) {
+      found.forEach((label) => removed.push(`${part} ${label}`));
+      zip.file(part, cleaned);
+    }
+  }
+
+  // 规范要求 mimetype 为第一个条目且不压缩
+  const buffer = await rebuildWithMimetypeFirst(zip);
+  return { buffer, removed };
+}
+
+export async function processOdf(inputPath: string, outputPath: string, profile?: MetadataProfile) {
+  const data = await fs.promises.readFile(inputPath);
+  const { buffer, removed } = await cleanOdfBuffer(data, profile);
+  await fs.promises.writeFile(outputPath, buffer);
+  return { removed, type: 'odf' };
+}
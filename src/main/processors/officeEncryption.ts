@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { CompoundFile, buildCompoundFile, isCompoundFile } from './compoundFile';
+import { EncryptedFileError } from '../errors';
+
+// 加密的 OOXML 文档是包含 EncryptionInfo 与 EncryptedPackage 流的复合文档，参见 [MS-OFFCRYPTO]。
+// 只支持 Office 2010 起默认使用的 Agile 加密；清理后用同一密钥重新加密并更新完整性校验值
+
+const SEGMENT_SIZE = 4096;
+
+const BLOCK_KEYS = {
+  verifierInput: Buffer.from('fea7d2763b4b9e79', 'hex'),
+  verifierValue: Buffer.from('d7aa0f6d3061344e', 'hex'),
+  encryptedKey: Buffer.from('146e0be7abacd0d6', 'hex'),
+  hmacKey: Buffer.from('5fb2ad010cb9e1f6', 'hex'),
+  hmacValue: Buffer.from('a0677f02b22c8433', 'hex'),
+};
+
+const HASH_NAMES: Record<string, string> = {
+  SHA1: 'sha1',
+  SHA256: 'sha256',
+  SHA384: 'sha384',
+  SHA512: 'sha512',
+};
+
+interface CipherParams {
+  salt: Buffer;
+  blockSize: number;
+  keyBytes: number;
+  hash: string;
+}
+
+export interface DecryptedOffice {
+  buffer: Buffer;
+  // 用原有的密钥重新加密清理后的 OOXML 包
+  encrypt(plain: Buffer): Buffer;
+}
+
+/** 判断复合文档是否为加密的 OOXML 包 */
+export function isEncryptedOffice(data: Buffer) {
+  if (!isCompoundFile(data)) return false;
+  const cfb = new CompoundFile(Buffer.from(data));
+  return !!cfb.find('EncryptionInfo') && !!cfb.find('EncryptedPackage');
+}
+
+const attr = (xml: string, element: string, name: string) => {
+  const tag = xml.match(new RegExp(`<(?:\\w+:)?${element}\\b[^>]*>`))?.[0] ?? '';
+  return tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+};
+
+function cipherParams(xml: string, element: string): CipherParams {
+  const algorithm = attr(xml, element, 'cipherAlgorithm');
+  const chaining = attr(xml, element, 'cipherChaining');
+  const hash = HASH_NAMES[attr(xml, element, 'hashAlgorithm') ?? ''];
+  if (algorithm !== 'AES' || chaining !== 'ChainingModeCBC' || !hash) {
+    throw new EncryptedFileError(`不支持的 Office 加密算法 (${algorithm}/${chaining})`);
+  }
+  return {
+    salt: Buffer.from(attr(xml, element, 'saltValue') ?? '', 'base64'),
+    blockSize: Number(attr(xml, element, 'blockSize') ?? 16),
+    keyBytes: Number(attr(xml, element, 'keyBits') ?? 256) / 8,
+    hash,
+  };
+}
+
+const digest = (hash: string, ...parts: Buffer[]) => crypto.createHash(hash).update(Buffer.concat(parts)).digest();
+
+// 散列结果不足时以 0x36 补齐，超出时截断
+const fitTo = (data: Buffer, length: number) =>
+  Buffer.concat([data, Buffer.alloc(Math.max(0, length - data.length), 0x36)]).subarray(0, length);
+
+function aesCbc(mode: 'encrypt' | 'decrypt', key: Buffer, iv: Buffer, data: Buffer) {
+  const algorithm = `aes-${key.length * 8}-cbc`;
+  const cipher = mode === 'encrypt'
+    ? crypto.createCipheriv(algorithm, key, iv)
+    : crypto.createDecipheriv(algorithm, key, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+const padBlock = (data: Buffer, blockSize: number) =>
+  Buffer.concat([data, Buffer.alloc((blockSize - (data.length % blockSize)) % blockSize)]);
+
+/** 由密码推导出加密中间密钥的密钥，返回一个按块密钥派生的函数 */
+function passwordKeys(xml: string, password: string) {
+  const params = cipherParams(xml, 'encryptedKey');
+  const spinCount = Number(attr(xml, 'encryptedKey', 'spinCount') ?? 100000);
+  let h = digest(params.hash, params.salt, Buffer.from(password, 'utf16le'));
+  const counter = Buffer.alloc(4);
+  for (let i = 0; i < spinCount; i++) {
+    counter.writeUInt32LE(i);
+    h = digest(params.hash, counter, h);
+  }
+  const iv = fitTo(params.salt, params.blockSize);
+  const decryptWith = (blockKey: Buffer, value: string) =>
+    aesCbc('decrypt', fitTo(digest(params.hash, h, blockKey), params.keyBytes), iv, Buffer.from(value, 'base64'));
+  return { params, decryptWith };
+}
+
+function unlockSecretKey(xml: string, password: string) {
+  const { params, decryptWith } = passwordKeys(xml, password);
+  const read = (name: string) => attr(xml, 'encryptedKey', name) ?? '';
+  const verifierInput = decryptWith(BLOCK_KEYS.verifierInput, read('encryptedVerifierHashInput'))
+    .subarray(0, params.salt.length);
+  const hashSize = Number(attr(xml, 'encryptedKey', 'hashSize') ?? 64);
+  const expected = decryptWith(BLOCK_KEYS.verifierValue, read('encryptedVerifierHashValue')).subarray(0, hashSize);
+  if (!digest(params.hash, verifierInput).equals(expected)) {
+    throw new EncryptedFileError('Office 文档密码不正确', true);
+  }
+  return decryptWith(BLOCK_KEYS.encryptedKey, read('encryptedKeyValue')).subarray(0, params.keyBytes);
+}
+
+/** 逐段（4096 字节）加解密包数据，每段以段序号派生 IV */
+function transformSegments(mode: 'encrypt' | 'decrypt', data: Buffer, key: Buffer, params: CipherParams) {
+  const parts: Buffer[] = [];
+  const index = Buffer.alloc(4);
+  for (let offset = 0, i = 0; offset < data.length; offset += SEGMENT_SIZE, i++) {
+    index.writeUInt32LE(i);
+    const iv = fitTo(digest(params.hash, params.salt, index), params.blockSize);
+    const segment = padBlock(data.subarray(offset, offset + SEGMENT_SIZE), params.blockSize);
+    parts.push(aesCbc(mode, key, iv, segment));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * 用密码解密 OOXML 包，未提供密码或密码错误时抛出 EncryptedFileError
+ */
+export function decryptOffice(data: Buffer, password?: string): DecryptedOffice {
+  const cfb = new CompoundFile(Buffer.from(data));
+  const info = cfb.readStream(cfb.find('EncryptionInfo')!);
+  if (info.readUInt16LE(0) !== 4 || info.readUInt16LE(2) !== 4) {
+    throw new EncryptedFileError('仅支持 Agile 方式加密的 Office 文档，该文件使用了旧的标准加密');
+  }
+  if (!password) {
+    throw new EncryptedFileError('Office 文档已加密，需要提供密码才能清理');
+  }
+  const xml = info.subarray(8).toString('utf8');
+  const keyData = cipherParams(xml, 'keyData');
+  const secretKey = unlockSecretKey(xml, password);
+
+  const hmacIv = (blockKey: Buffer) => fitTo(digest(keyData.hash, keyData.salt, blockKey), keyData.blockSize);
+  const hmacKey = aesCbc(
+    'decrypt',
+    secretKey,
+    hmacIv(BLOCK_KEYS.hmacKey),
+    Buffer.from(attr(xml, 'dataIntegrity', 'encryptedHmacKey') ?? '', 'base64')
+  ).subarray(0, Number(attr(xml, 'keyData', 'hashSize') ?? 64));
+
+  const packageStream = cfb.readStream(cfb.find('EncryptedPackage')!);
+  const size = Number(packageStream.readBigUInt64LE(0));
+  const plain = transformSegments('decrypt', packageStream.subarray(8), secretKey, keyData).subarray(0, size);
+
+  return {
+    buffer: plain,
+    encrypt(cleaned: Buffer) {
+      const header = Buffer.alloc(8);
+      header.writeBigUInt64LE(BigInt(cleaned.length));
+      const encryptedPackage = Buffer.concat([header, transformSegments('encrypt', cleaned, secretKey, keyData)]);
+      // 完整性校验覆盖整个 EncryptedPackage 流（含长度前缀）
+      const hmac = crypto.createHmac(keyData.hash, hmacKey).update(encryptedPackage).digest();
+      const hmacValue = aesCbc('encrypt', secretKey, hmacIv(BLOCK_KEYS.hmacValue), padBlock(hmac, keyData.blockSize));
+      const newXml = xml.replace(
+        /(<(?:\w+:)?dataIntegrity\b[^>]*\bencryptedHmacValue=")[^"]*"/,
+        `$1${hmacValue.toString('base64')}"`
+      );
+
+      const streams = new Map<string, Buffer>();
+      for (const entry of cfb.streams()) streams.set(entry.path, cfb.readStream(entry));
+      streams.set('EncryptionInfo', Buffer.concat([info.subarray(0, 8), Buffer.from(newXml, 'utf8')]));
+      streams.set('EncryptedPackage', encryptedPackage);
+      return buildCompoundFile(streams);
+    },
+  };
+}
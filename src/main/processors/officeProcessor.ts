@@ -1,6 +1,14 @@
 import fs from 'fs';
 import path from 'path';
 import JSZip from 'jszip';
+import { cleanCompoundFile, processLegacyOffice } from './legacyOfficeProcessor';
+import { isCompoundFile } from './compoundFile';
+import { decryptOffice, isEncryptedOffice } from './officeEncryption';
+import { cleanImageBuffer, hasImageMetadata } from './imageProcessor';
+import { applyRevisionPolicy } from './docxRevisions';
+import { METADATA_KEYS, MetadataKey, isKept } from '../profiles';
+import { isLegacyOfficeExt, ooxmlExtension } from '../formats';
+import { MetadataProfile, ProcessOptions, RevisionPolicy } from '../types';
 
 const EMPTY_WORD_COMMENTS =
   '<w:comments xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"></w:comments>';
@@ -17,7 +25,95 @@ const COMMON_REMOVALS = [
   'docProps/thumbnail.jpeg',
 ];
 
+const CORE_XML = 'docProps/core.xml';
+const CORE_XML_HEADER =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+  'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+  'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">';
+
+// core.xml 中可按配置保留的字段
+export const KEEPABLE_CORE_FIELDS: Array<[MetadataKey, string]> = [
+  ['document.title', 'dc:title'],
+  ['document.subject', 'dc:subject'],
+  ['document.keywords', 'cp:keywords'],
+  ['document.author', 'dc:creator'],
+  ['document.language', 'dc:language'],
+];
+
 const CUSTOM_XML_PREFIX = 'customXml/';
+const CONTENT_TYPES = '[Content_Types].xml';
+
+// 记录作者/审阅者身份的部件，删除时一并移除其关系与内容类型声明
+const DOCX_IDENTITY_PARTS = ['word/people.xml', 'word/commentsIds.xml', 'word/commentsExtensible.xml'];
+const XLSX_IDENTITY_PREFIXES = ['xl/threadedComments/', 'xl/persons/'];
+const PPTX_IDENTITY_PARTS = ['ppt/commentAuthors.xml', 'ppt/authors.xml'];
+
+const MEDIA_PREFIXES = ['word/media/', 'xl/media/', 'ppt/media/'];
+const EMBEDDING_PREFIXES = ['word/embeddings/', 'xl/embeddings/', 'ppt/embeddings/'];
+const MEDIA_IMAGE_EXTS = new Set(['.jpg', '.jpeg', '.png', '.tiff', '.tif', '.webp', '.gif']);
+const OOXML_EXTS = new Set(['.docx', '.xlsx', '.pptx', '.docm', '.xlsm', '.pptm']);
+
+// 嵌入文档的最大递归层数，防止恶意构造的循环嵌套
+const MAX_EMBED_DEPTH = 3;
+
+export type OfficeCleanOptions = Pick<ProcessOptions, 'revisionPolicy' | 'profile' | 'password'>;
+
+const REVISION_POLICY_LABELS: Record<RevisionPolicy, string> = {
+  accept: '已接受全部修订',
+  reject: '已拒绝全部修订',
+  anonymize: '修订作者/时间已匿名',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 删除一个包部件，并清理 [Content_Types].xml 中的 Override 与所有指向它的 Relationship，
+ * 避免 Office 打开时提示文件损坏
+ */
+async function removePart(zip: JSZip, partName: string) {
+  zip.remove(partName);
+
+  const contentTypes = zip.file(CONTENT_TYPES);
+  if (contentTypes) {
+    const xml = await contentTypes.async('string');
+    const pattern = new RegExp(`<Override\\b[^>]*PartName="/${escapeRegExp(partName)}"[^>]*/>`, 'g');
+    const cleaned = xml.replace(pattern, '');
+    if (cleaned !== xml) zip.file(CONTENT_TYPES, cleaned);
+  }
+
+  const relsFiles = Object.keys(zip.files).filter((f) => f.endsWith('.rels') && !zip.files[f].dir);
+  for (const relsPath of relsFiles) {
+    // word/_rels/document.xml.rels 中的相对路径以 word/ 为基准
+    const baseDir = path.posix.dirname(path.posix.dirname(relsPath));
+    const xml = await zip.file(relsPath)!.async('string');
+    const cleaned = xml.replace(/<Relationship\b[^>]*\/>/g, (rel) => {
+      if (/TargetMode="External"/.test(rel)) return rel;
+      const target = rel.match(/Target="([^"]*)"/)?.[1];
+      if (!target) return rel;
+      const resolved = target.startsWith('/')
+        ? target.slice(1)
+        : path.posix.normalize(path.posix.join(baseDir === '.' ? '' : baseDir, target));
+      return resolved === partName ? '' : rel;
+    });
+    if (cleaned !== xml) zip.file(relsPath, cleaned);
+  }
+}
+
+/**
+ * 对正文、页眉页脚、脚注尾注等 WordprocessingML 部件中的 w:ins/w:del 等修订应用处理策略
+ */
+async function applyRevisions(zip: JSZip, policy: RevisionPolicy, removed: string[]) {
+  const parts = Object.keys(zip.files).filter((f) => /^word\/[^/]+\.xml$/.test(f));
+  for (const part of parts) {
+    const xml = await zip.file(part)!.async('string');
+    const transformed = applyRevisionPolicy(xml, policy);
+    if (transformed !== null) {
+      removed.push(`${part} ${REVISION_POLICY_LABELS[policy]}`);
+      zip.file(part, transformed);
+    }
+  }
+}
 
 async function stripTrackRevisions(zip: JSZip, removed: string[]) {
   const settings = zip.file('word/settings.xml');
@@ -32,19 +128,126 @@ async function stripTrackRevisions(zip: JSZip, removed: string[]) {
   }
 }
 
-function removeCommon(zip: JSZip, removed: string[]) {
+/**
+ * 只保留配置允许的 core.xml 字段重新生成该部件；没有需要保留的字段时返回 null
+ */
+async function rebuildCoreXml(zip: JSZip, profile?: MetadataProfile) {
+  const core = zip.file(CORE_XML);
+  if (!core) return null;
+  const xml = await core.async('string');
+  const kept: string[] = [];
+  const elements: string[] = [];
+  for (const [key, tag] of KEEPABLE_CORE_FIELDS) {
+    if (!isKept(profile, key)) continue;
+    const element = xml.match(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`))?.[0];
+    if (!element) continue;
+    kept.push(METADATA_KEYS[key]);
+    elements.push(element);
+  }
+  if (elements.length === 0) return null;
+  return { xml: `${CORE_XML_HEADER}${elements.join('')}</cp:coreProperties>`, kept };
+}
+
+async function removeCommon(zip: JSZip, removed: string[], profile?: MetadataProfile) {
+  const core = await rebuildCoreXml(zip, profile);
+  if (core) {
+    zip.file(CORE_XML, core.xml);
+    removed.push(`${CORE_XML} (保留 ${core.kept.join('、')})`);
+  }
   for (const entry of COMMON_REMOVALS) {
+    if (entry === CORE_XML && core) continue;
     if (zip.file(entry)) {
       removed.push(entry);
-      zip.remove(entry);
+      await removePart(zip, entry);
+    }
+  }
+  const customXml = Object.keys(zip.files).filter((f) => f.startsWith(CUSTOM_XML_PREFIX));
+  if (customXml.length > 0) {
+    removed.push(CUSTOM_XML_PREFIX);
+  }
+  for (const f of customXml) {
+    await removePart(zip, f);
+  }
+}
+
+async function removeIdentityParts(zip: JSZip, parts: string[], removed: string[]) {
+  for (const part of parts) {
+    if (zip.file(part)) {
+      removed.push(part);
+      await removePart(zip, part);
+    }
+  }
+}
+
+/**
+ * 去除 w:rsid* 编辑会话标识，它们可用于关联同一台机器/同一会话编辑过的文档
+ */
+async function stripRsids(zip: JSZip, removed: string[]) {
+  let touched = false;
+  const parts = Object.keys(zip.files).filter((f) => /^word\/[^/]+\.xml$/.test(f));
+  for (const part of parts) {
+    const xml = await zip.file(part)!.async('string');
+    const cleaned = xml
+      .replace(/\s+w:rsid\w*="[^"]*"/g, '')
+      .replace(/<w:rsids\b[^>]*>[\s\S]*?<\/w:rsids>/g, '')
+      .replace(/<w:rsids\b[^>]*\/>/g, '');
+    if (cleaned !== xml) {
+      touched = true;
+      zip.file(part, cleaned);
+    }
+  }
+  if (touched) removed.push('w:rsid 编辑会话标识');
+}
+
+async function cleanEmbeddedMedia(zip: JSZip, removed: string[], profile?: MetadataProfile) {
+  const media = Object.keys(zip.files).filter(
+    (f) =>
+      !zip.files[f].dir &&
+      MEDIA_PREFIXES.some((p) => f.startsWith(p)) &&
+      MEDIA_IMAGE_EXTS.has(path.posix.extname(f).toLowerCase())
+  );
+  for (const name of media) {
+    const data = await zip.file(name)!.async('nodebuffer');
+    // 没有元数据的图片不重新编码，避免无谓的画质损失
+    if (!(await hasImageMetadata(data))) continue;
+    try {
+      const cleaned = await cleanImageBuffer(data, path.posix.extname(name), { profile });
+      zip.file(name, cleaned.buffer);
+      removed.push(`${name} EXIF/GPS`);
+    } catch (err) {
+      console.error(`Failed to clean embedded image ${name}:`, err);
+    }
+  }
+}
+
+async function cleanEmbeddedObjects(
+  zip: JSZip,
+  removed: string[],
+  options: OfficeCleanOptions,
+  depth: number
+) {
+  const embeddings = Object.keys(zip.files).filter(
+    (f) => !zip.files[f].dir && EMBEDDING_PREFIXES.some((p) => f.startsWith(p))
+  );
+  for (const name of embeddings) {
+    const data = await zip.file(name)!.async('nodebuffer');
+    const ext = path.posix.extname(name).toLowerCase();
+    try {
+      if (OOXML_EXTS.has(ext) && depth < MAX_EMBED_DEPTH) {
+        const cleaned = await cleanOfficeBuffer(data, ext, options, depth + 1);
+        zip.file(name, cleaned.buffer);
+        removed.push(...cleaned.removed.map((item) => `${name}: ${item}`));
+      } else if (isCompoundFile(data)) {
+        const cleaned = cleanCompoundFile(data, options.profile);
+        if (cleaned.removed.length > 0) {
+          zip.file(name, cleaned.buffer);
+          removed.push(...cleaned.removed.map((item) => `${name}: ${item}`));
+        }
+      }
+    } catch (err) {
+      console.error(`Failed to clean embedded object ${name}:`, err);
     }
   }
-  Object.keys(zip.files)
-    .filter((f) => f.startsWith(CUSTOM_XML_PREFIX))
-    .forEach((f) => {
-      removed.push(CUSTOM_XML_PREFIX);
-      zip.remove(f);
-    });
 }
 
 function clearIfExists(zip: JSZip, fileName: string, content: string, removed: string[]) {
@@ -54,59 +257,99 @@ function clearIfExists(zip: JSZip, fileName: string, content: string, removed: s
   }
 }
 
-async function processDocx(zip: JSZip, removed: string[]) {
+async function processDocx(zip: JSZip, removed: string[], options: OfficeCleanOptions) {
   clearIfExists(zip, 'word/comments.xml', EMPTY_WORD_COMMENTS, removed);
   clearIfExists(zip, 'word/commentsExtended.xml', EMPTY_WORD_COMMENTS, removed);
+  await applyRevisions(zip, options.revisionPolicy ?? 'anonymize', removed);
   await stripTrackRevisions(zip, removed);
+  await stripRsids(zip, removed);
+  await removeIdentityParts(zip, DOCX_IDENTITY_PARTS, removed);
 }
 
-function processXlsx(zip: JSZip, removed: string[]) {
+async function processXlsx(zip: JSZip, removed: string[]) {
   Object.keys(zip.files)
     .filter((f) => f.startsWith('xl/comments'))
     .forEach((f) => {
       removed.push(`${f} cleared`);
       zip.file(f, EMPTY_XLSX_COMMENTS);
     });
+  const identityParts = Object.keys(zip.files).filter(
+    (f) => !zip.files[f].dir && XLSX_IDENTITY_PREFIXES.some((p) => f.startsWith(p))
+  );
+  await removeIdentityParts(zip, identityParts, removed);
 }
 
-function processPptx(zip: JSZip, removed: string[]) {
+async function processPptx(zip: JSZip, removed: string[]) {
   Object.keys(zip.files)
     .filter((f) => f.startsWith('ppt/comments'))
     .forEach((f) => {
       removed.push(`${f} cleared`);
       zip.file(f, EMPTY_PPT_COMMENTS);
     });
+  await removeIdentityParts(zip, PPTX_IDENTITY_PARTS, removed);
 }
 
-export async function processOffice(inputPath: string, outputPath: string) {
-  const ext = path.parse(inputPath).ext.toLowerCase();
-  
-  // 检查是否为旧版 Office 格式 (OLE2)
-  if (['.doc', '.xls', '.ppt'].includes(ext)) {
-    throw new Error(`暂不支持旧版 Office 格式 (${ext})。请先使用 Office 或在线转换工具将其转换为新版格式 (.docx, .xlsx, .pptx) 后再处理。`);
+/**
+ * 在内存中清理 OOXML 包，嵌入的 Office 文档会按相同规则递归清理
+ */
+export async function cleanOfficeBuffer(
+  data: Buffer,
+  ext: string,
+  options: OfficeCleanOptions = {},
+  depth = 0
+): Promise<{ buffer: Buffer; removed: string[] }> {
+  // 加密文档先解密出 OOXML 包，清理后用原密钥重新加密
+  if (isEncryptedOffice(data)) {
+    const decrypted = decryptOffice(data, options.password);
+    const result = await cleanOfficeBuffer(decrypted.buffer, ext, options, depth);
+    return { buffer: decrypted.encrypt(result.buffer), removed: result.removed };
   }
-
-  const buffer = await fs.promises.readFile(inputPath);
   let zip: JSZip;
   try {
-    zip = await JSZip.loadAsync(buffer);
+    zip = await JSZip.loadAsync(data);
   } catch (err) {
     throw new Error('无法解析该 Office 文件，可能文件已损坏或为不支持的旧版二进制格式。');
   }
   const removed: string[] = [];
 
-  removeCommon(zip, removed);
+  // 文档类型以包内声明的主部件为准，加密文档在解密前只能按扩展名推测
+  const contentTypes = await zip.file('[Content_Types].xml')?.async('string');
+  const kind = (contentTypes && ooxmlExtension(contentTypes)) || ext;
+
+  await removeCommon(zip, removed, options.profile);
+
+  if (kind === '.docx' || kind === '.docm') {
+    await processDocx(zip, removed, options);
+  } else if (kind === '.xlsx' || kind === '.xlsm') {
+    await processXlsx(zip, removed);
+  } else if (kind === '.pptx' || kind === '.pptm') {
+    await processPptx(zip, removed);
+  }
+
+  await cleanEmbeddedMedia(zip, removed, options.profile);
+  await cleanEmbeddedObjects(zip, removed, options, depth);
+
+  const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { buffer, removed };
+}
 
-  if (ext === '.docx') {
-    await processDocx(zip, removed);
-  } else if (ext === '.xlsx') {
-    processXlsx(zip, removed);
-  } else if (ext === '.pptx') {
-    processPptx(zip, removed);
+/**
+ * ext 为按内容识别出的文档扩展名，缺省时取文件名的扩展名
+ */
+export async function processOffice(
+  inputPath: string,
+  outputPath: string,
+  options: OfficeCleanOptions = {},
+  ext = path.parse(inputPath).ext.toLowerCase()
+) {
+  // 旧版 Office 格式 (OLE2) 为复合文档，单独处理
+  if (isLegacyOfficeExt(ext)) {
+    return processLegacyOffice(inputPath, outputPath, options.profile);
   }
 
-  const resultBuffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
-  await fs.promises.writeFile(outputPath, resultBuffer);
+  const data = await fs.promises.readFile(inputPath);
+  const { buffer, removed } = await cleanOfficeBuffer(data, ext, options);
+  await fs.promises.writeFile(outputPath, buffer);
 
   return { removed, type: 'office' };
 }
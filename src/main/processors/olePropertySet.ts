@@ -0,0 +1,175 @@
+// OLE 属性集 (\005SummaryInformation 等) 的解析与生成，参见 [MS-OLEPS]
+
+export const SUMMARY_INFORMATION = '\u0005SummaryInformation';
+export const DOC_SUMMARY_INFORMATION = '\u0005DocumentSummaryInformation';
+
+// 属性 ID，对应 SummaryInformation 中的字段
+export const PID_CODEPAGE = 0x01;
+export const PID_TITLE = 0x02;
+export const PID_SUBJECT = 0x03;
+export const PID_AUTHOR = 0x04;
+export const PID_KEYWORDS = 0x05;
+export const PID_COMMENTS = 0x06;
+export const PID_TEMPLATE = 0x07;
+export const PID_LASTAUTHOR = 0x08;
+export const PID_REVNUMBER = 0x09;
+export const PID_CREATE_DTM = 0x0c;
+export const PID_LASTSAVE_DTM = 0x0d;
+export const PID_APPNAME = 0x12;
+// DocumentSummaryInformation 中的字段
+export const PID_MANAGER = 0x0e;
+export const PID_COMPANY = 0x0f;
+
+const VT_I2 = 0x0002;
+const VT_I4 = 0x0003;
+const VT_BOOL = 0x000b;
+const VT_LPSTR = 0x001e;
+const VT_LPWSTR = 0x001f;
+const VT_FILETIME = 0x0040;
+
+const CP_UTF16 = 1200;
+const FILETIME_EPOCH_OFFSET = 11644473600000n;
+
+export type PropertyValue = string | number | boolean | Date;
+
+export interface PropertySection {
+  fmtid: Buffer;
+  properties: Map<number, PropertyValue>;
+}
+
+const CODEPAGE_LABELS: Record<number, string> = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  1200: 'utf-16le',
+  10000: 'macintosh',
+  65001: 'utf-8',
+};
+
+function decodeString(bytes: Buffer, codepage: number) {
+  const label = CODEPAGE_LABELS[codepage] ?? `windows-${codepage}`;
+  try {
+    return new TextDecoder(label).decode(bytes).replace(/\0+$/, '');
+  } catch {
+    return bytes.toString('latin1').replace(/\0+$/, '');
+  }
+}
+
+function readValue(buf: Buffer, offset: number, codepage: number): PropertyValue | undefined {
+  if (offset + 4 > buf.length) return undefined;
+  const type = buf.readUInt16LE(offset);
+  const body = offset + 4;
+  switch (type) {
+    case VT_I2:
+      return buf.readInt16LE(body);
+    case VT_I4:
+      return buf.readInt32LE(body);
+    case VT_BOOL:
+      return buf.readUInt16LE(body) !== 0;
+    case VT_LPSTR: {
+      const size = buf.readUInt32LE(body);
+      const bytes = buf.subarray(body + 4, body + 4 + size);
+      return codepage === CP_UTF16 ? bytes.toString('utf16le').replace(/\0+$/, '') : decodeString(bytes, codepage);
+    }
+    case VT_LPWSTR: {
+      const chars = buf.readUInt32LE(body);
+      return buf.toString('utf16le', body + 4, body + 4 + chars * 2).replace(/\0+$/, '');
+    }
+    case VT_FILETIME: {
+      const ticks = buf.readBigUInt64LE(body);
+      if (ticks === 0n) return undefined;
+      return new Date(Number(ticks / 10000n - FILETIME_EPOCH_OFFSET));
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 解析属性集流中的全部节；无法识别的属性类型会被忽略
+ */
+export function parsePropertySet(buf: Buffer): PropertySection[] {
+  if (buf.length < 28 || buf.readUInt16LE(0) !== 0xfffe) {
+    throw new Error('属性集格式无效');
+  }
+  const sectionCount = buf.readUInt32LE(24);
+  const sections: PropertySection[] = [];
+  for (let s = 0; s < sectionCount; s++) {
+    const headerOffset = 28 + s * 20;
+    if (headerOffset + 20 > buf.length) break;
+    const fmtid = Buffer.from(buf.subarray(headerOffset, headerOffset + 16));
+    const sectionOffset = buf.readUInt32LE(headerOffset + 16);
+    if (sectionOffset + 8 > buf.length) break;
+
+    const count = buf.readUInt32LE(sectionOffset + 4);
+    const ids: Array<[number, number]> = [];
+    for (let i = 0; i < count; i++) {
+      const entry = sectionOffset + 8 + i * 8;
+      if (entry + 8 > buf.length) break;
+      ids.push([buf.readUInt32LE(entry), sectionOffset + buf.readUInt32LE(entry + 4)]);
+    }
+
+    // 先读出代码页，字符串属性需要据此解码
+    const codepageEntry = ids.find(([id]) => id === PID_CODEPAGE);
+    const rawCodepage = codepageEntry ? readValue(buf, codepageEntry[1], 0) : undefined;
+    const codepage = typeof rawCodepage === 'number' ? rawCodepage & 0xffff : 1252;
+
+    const properties = new Map<number, PropertyValue>();
+    for (const [id, offset] of ids) {
+      // ID 0 是自定义属性的名称字典，这里不解析
+      if (id === 0) continue;
+      try {
+        const value = readValue(buf, offset, codepage);
+        if (value !== undefined) properties.set(id, value);
+      } catch {
+        // 越界或截断的属性直接跳过
+      }
+    }
+    sections.push({ fmtid, properties });
+  }
+  return sections;
+}
+
+/**
+ * 生成属性集：代码页固定为 UTF-16，strings 中的字段以 VT_LPSTR 写入，
+ * 沿用原有的 FMTID 以保持流可被正常识别；strings 为空时即只含代码页的空属性集
+ */
+export function buildPropertySet(fmtid: Buffer, strings: Map<number, string> = new Map()): Buffer {
+  const values: Array<[number, Buffer]> = [];
+  const codepage = Buffer.alloc(8);
+  codepage.writeUInt16LE(VT_I2, 0);
+  codepage.writeInt16LE(CP_UTF16, 4);
+  values.push([PID_CODEPAGE, codepage]);
+  for (const [id, text] of strings) {
+    const bytes = Buffer.from(`${text}\0`, 'utf16le');
+    const value = Buffer.alloc(8 + Math.ceil(bytes.length / 4) * 4);
+    value.writeUInt16LE(VT_LPSTR, 0);
+    value.writeUInt32LE(bytes.length, 4);
+    bytes.copy(value, 8);
+    values.push([id, value]);
+  }
+
+  const sectionOffset = 48;
+  const tableSize = 8 + values.length * 8;
+  const sectionSize = tableSize + values.reduce((sum, [, value]) => sum + value.length, 0);
+  const buf = Buffer.alloc(sectionOffset + sectionSize);
+  buf.writeUInt16LE(0xfffe, 0); // 字节序
+  buf.writeUInt16LE(0, 2); // 版本
+  buf.writeUInt32LE(0x00020006, 4); // 系统标识 (Win32)
+  // 8..24 为 CLSID，保持全 0
+  buf.writeUInt32LE(1, 24);
+  fmtid.copy(buf, 28);
+  buf.writeUInt32LE(sectionOffset, 44);
+
+  buf.writeUInt32LE(sectionSize, sectionOffset); // 节大小
+  buf.writeUInt32LE(values.length, sectionOffset + 4); // 属性数量
+  let offset = tableSize;
+  values.forEach(([id, value], i) => {
+    buf.writeUInt32LE(id, sectionOffset + 8 + i * 8);
+    buf.writeUInt32LE(offset, sectionOffset + 12 + i * 8);
+    value.copy(buf, sectionOffset + offset);
+    offset += value.length;
+  });
+  return buf;
+}
@@ -0,0 +1,315 @@
+import crypto from 'crypto';
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  PDFWriter,
+} from 'pdf-lib';
+import { EncryptedFileError } from '../errors';
+
+// PDF 标准安全处理器 (ISO 32000-2 §7.6.4)：用密码推导文件密钥，逐对象解密后交给常规清理流程，
+// 清理结果再用同一密钥与原 Encrypt 字典加密，用户/所有者密码与权限均保持不变
+
+const PASSWORD_PADDING = Buffer.from('28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a', 'hex');
+
+type CipherKind = 'identity' | 'rc4' | 'aes';
+
+interface SecurityHandler {
+  revision: number;
+  fileKey: Buffer;
+  strings: CipherKind;
+  streams: CipherKind;
+  encryptMetadata: boolean;
+}
+
+export interface DecryptedPdf {
+  buffer: Buffer;
+  // 用原有的密钥与 Encrypt 字典重新加密清理后的文件
+  encrypt(plain: Buffer): Promise<Buffer>;
+}
+
+const md5 = (...parts: Buffer[]) => crypto.createHash('md5').update(Buffer.concat(parts)).digest();
+const sha256 = (...parts: Buffer[]) => crypto.createHash('sha256').update(Buffer.concat(parts)).digest();
+
+// OpenSSL 3 默认不再提供 RC4，按算法定义直接实现
+function rc4(key: Buffer, data: Buffer) {
+  const s = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) s[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = Buffer.alloc(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[k] = data[k] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+}
+
+function aesCbc(mode: 'encrypt' | 'decrypt', key: Buffer, iv: Buffer, data: Buffer, padding = true) {
+  const algorithm = `aes-${key.length * 8}-cbc`;
+  const cipher = mode === 'encrypt'
+    ? crypto.createCipheriv(algorithm, key, iv)
+    : crypto.createDecipheriv(algorithm, key, iv);
+  cipher.setAutoPadding(padding);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+const padPassword = (password: string) =>
+  Buffer.concat([Buffer.from(password, 'latin1').subarray(0, 32), PASSWORD_PADDING]).subarray(0, 32);
+
+const bytesOf = (dict: PDFDict, key: string) => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? Buffer.from(value.asBytes()) : Buffer.alloc(0);
+};
+
+const numberOf = (dict: PDFDict, key: string, fallback: number) =>
+  dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber() ?? fallback;
+
+/** 算法 2：由（补齐后的）用户密码计算 R2-R4 的文件密钥 */
+function legacyFileKey(encrypt: PDFDict, padded: Buffer, id0: Buffer, revision: number, length: number, encryptMetadata: boolean) {
+  const p = Buffer.alloc(4);
+  p.writeInt32LE(numberOf(encrypt, 'P', 0) | 0);
+  const parts = [padded, bytesOf(encrypt, 'O').subarray(0, 32), p, id0];
+  if (revision >= 4 && !encryptMetadata) parts.push(Buffer.from([0xff, 0xff, 0xff, 0xff]));
+  let key = md5(...parts);
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) key = md5(key.subarray(0, length));
+  }
+  return key.subarray(0, revision === 2 ? 5 : length);
+}
+
+const xorKey = (key: Buffer, value: number) => Buffer.from(key.map((b) => b ^ value));
+
+/** 算法 4/5：校验文件密钥能否还原出 /U */
+function checkLegacyKey(key: Buffer, encrypt: PDFDict, id0: Buffer, revision: number) {
+  const u = bytesOf(encrypt, 'U');
+  if (revision === 2) return rc4(key, PASSWORD_PADDING).equals(u.subarray(0, 32));
+  let x = rc4(key, md5(PASSWORD_PADDING, id0));
+  for (let i = 1; i <= 19; i++) x = rc4(xorKey(key, i), x);
+  return x.equals(u.subarray(0, 16));
+}
+
+/** 算法 7：用所有者密码解出补齐后的用户密码 */
+function ownerToUserPassword(encrypt: PDFDict, password: string, revision: number, length: number) {
+  let hash = md5(padPassword(password));
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash);
+  }
+  const key = hash.subarray(0, revision === 2 ? 5 : length);
+  let x = bytesOf(encrypt, 'O').subarray(0, 32);
+  if (revision === 2) return rc4(key, x);
+  for (let i = 19; i >= 0; i--) x = rc4(xorKey(key, i), x);
+  return x;
+}
+
+/** 算法 2.B：R6 的迭代散列，R5 只做一次 SHA-256 */
+function hardenedHash(password: Buffer, salt: Buffer, userKey: Buffer, revision: number) {
+  let k = sha256(password, salt, userKey);
+  if (revision === 5) return k;
+  for (let round = 0; ; round++) {
+    const block = Buffer.concat([password, k, userKey]);
+    const e = aesCbc('encrypt', k.subarray(0, 16), k.subarray(16, 32), Buffer.concat(Array(64).fill(block)), false);
+    const mod = e.subarray(0, 16).reduce((sum, b) => sum + b, 0) % 3;
+    k = crypto.createHash(['sha256', 'sha384', 'sha512'][mod]).update(e).digest();
+    if (round >= 63 && e[e.length - 1] <= round - 31) break;
+  }
+  return k.subarray(0, 32);
+}
+
+function aesV3FileKey(encrypt: PDFDict, password: string, revision: number) {
+  const pw = Buffer.from(password, 'utf8').subarray(0, 127);
+  const u = bytesOf(encrypt, 'U');
+  const o = bytesOf(encrypt, 'O');
+  const zeroIv = Buffer.alloc(16);
+  if (hardenedHash(pw, o.subarray(32, 40), u.subarray(0, 48), revision).equals(o.subarray(0, 32))) {
+    const key = hardenedHash(pw, o.subarray(40, 48), u.subarray(0, 48), revision);
+    return aesCbc('decrypt', key, zeroIv, bytesOf(encrypt, 'OE'), false);
+  }
+  if (hardenedHash(pw, u.subarray(32, 40), Buffer.alloc(0), revision).equals(u.subarray(0, 32))) {
+    const key = hardenedHash(pw, u.subarray(40, 48), Buffer.alloc(0), revision);
+    return aesCbc('decrypt', key, zeroIv, bytesOf(encrypt, 'UE'), false);
+  }
+  return null;
+}
+
+function cipherFor(encrypt: PDFDict, version: number, key: 'StmF' | 'StrF'): CipherKind {
+  if (version < 4) return 'rc4';
+  const name = encrypt.lookupMaybe(PDFName.of(key), PDFName)?.decodeText() ?? 'Identity';
+  if (name === 'Identity') return 'identity';
+  const filter = encrypt.lookupMaybe(PDFName.of('CF'), PDFDict)?.lookupMaybe(PDFName.of(name), PDFDict);
+  const method = filter?.lookupMaybe(PDFName.of('CFM'), PDFName)?.decodeText() ?? 'None';
+  if (method === 'V2') return 'rc4';
+  if (method === 'AESV2' || method === 'AESV3') return 'aes';
+  if (method === 'None') return 'identity';
+  throw new EncryptedFileError(`不支持的 PDF 加密方式 (${method})`);
+}
+
+function openHandler(encrypt: PDFDict, id0: Buffer, password: string): SecurityHandler {
+  const filter = encrypt.lookupMaybe(PDFName.of('Filter'), PDFName)?.decodeText();
+  if (filter !== 'Standard') {
+    throw new EncryptedFileError(`不支持的 PDF 安全处理器 (${filter ?? '未知'})，无法解密`);
+  }
+  const version = numberOf(encrypt, 'V', 0);
+  const revision = numberOf(encrypt, 'R', 2);
+  const encryptMetadata = encrypt.lookup(PDFName.of('EncryptMetadata'))?.toString() !== 'false';
+  const strings = cipherFor(encrypt, version, 'StrF');
+  const streams = cipherFor(encrypt, version, 'StmF');
+
+  let fileKey: Buffer | null = null;
+  if (revision >= 5) {
+    fileKey = aesV3FileKey(encrypt, password, revision);
+  } else {
+    const length = revision === 2 ? 5 : numberOf(encrypt, 'Length', 40) / 8;
+    // 先按用户密码尝试，再按所有者密码解出用户密码
+    for (const padded of [padPassword(password), ownerToUserPassword(encrypt, password, revision, length)]) {
+      const key = legacyFileKey(encrypt, padded, id0, revision, length, encryptMetadata);
+      if (checkLegacyKey(key, encrypt, id0, revision)) {
+        fileKey = key;
+        break;
+      }
+    }
+  }
+  if (!fileKey) throw new EncryptedFileError('PDF 密码不正确', true);
+  return { revision, fileKey, strings, streams, encryptMetadata };
+}
+
+/** 算法 1：R2-R4 为每个对象派生独立密钥，R5 以上直接使用文件密钥 */
+function objectKey(handler: SecurityHandler, ref: PDFRef, kind: CipherKind) {
+  if (handler.revision >= 5) return handler.fileKey;
+  const { objectNumber: num, generationNumber: gen } = ref;
+  const suffix = Buffer.from([num & 0xff, (num >> 8) & 0xff, (num >> 16) & 0xff, gen & 0xff, (gen >> 8) & 0xff]);
+  const salt = kind === 'aes' ? Buffer.from('sAlT', 'latin1') : Buffer.alloc(0);
+  return md5(handler.fileKey, suffix, salt).subarray(0, Math.min(handler.fileKey.length + 5, 16));
+}
+
+type Transform = (data: Buffer, kind: CipherKind, key: Buffer) => Buffer;
+
+const decryptBytes: Transform = (data, kind, key) => {
+  if (kind === 'identity') return data;
+  if (kind === 'rc4') return rc4(key, data);
+  if (data.length < 32 || data.length % 16 !== 0) return Buffer.alloc(0);
+  return aesCbc('decrypt', key, data.subarray(0, 16), data.subarray(16));
+};
+
+const encryptBytes: Transform = (data, kind, key) => {
+  if (kind === 'identity') return data;
+  if (kind === 'rc4') return rc4(key, data);
+  const iv = crypto.randomBytes(16);
+  return Buffer.concat([iv, aesCbc('encrypt', key, iv, data)]);
+};
+
+const isString = (value: PDFObject): value is PDFString | PDFHexString =>
+  value instanceof PDFString || value instanceof PDFHexString;
+
+const hexString = (data: Buffer) => PDFHexString.of(data.toString('hex'));
+
+/** 转换直接对象中的全部字符串，字典与数组原地修改 */
+function transformStrings(value: PDFObject, convert: (data: Buffer) => Buffer): PDFObject {
+  if (isString(value)) return hexString(convert(Buffer.from(value.asBytes())));
+  if (value instanceof PDFDict) {
+    for (const [key, entry] of value.entries()) value.set(key, transformStrings(entry, convert));
+  } else if (value instanceof PDFArray) {
+    for (let i = 0; i < value.size(); i++) value.set(i, transformStrings(value.get(i), convert));
+  }
+  return value;
+}
+
+/** 转换一个间接对象的字符串与流内容，交叉引用流与（未加密的）XMP 流除外 */
+function transformObject(obj: PDFObject, ref: PDFRef, handler: SecurityHandler, transform: Transform): PDFObject {
+  const stringKey = objectKey(handler, ref, handler.strings);
+  const convertString = (data: Buffer) => transform(data, handler.strings, stringKey);
+  if (!(obj instanceof PDFRawStream)) return transformStrings(obj, convertString);
+
+  const type = obj.dict.lookupMaybe(PDFName.of('Type'), PDFName)?.decodeText();
+  if (type === 'XRef') return obj;
+  transformStrings(obj.dict, convertString);
+  if (type === 'Metadata' && !handler.encryptMetadata) return obj;
+  const contents = transform(Buffer.from(obj.contents), handler.streams, objectKey(handler, ref, handler.streams));
+  return PDFRawStream.of(obj.dict, contents);
+}
+
+interface ParserInternals {
+  parseIndirectObjectHeader(): PDFRef;
+  parseObject(): PDFObject;
+}
+
+/**
+ * 解析加密文件并在解析过程中逐个解密顶层对象。pdf-lib 会在解析完成前展开对象流，
+ * 因此不能等解析结束后再解密，只能包装解析器内部方法
+ */
+async function parseDecrypted(data: Buffer, handler: SecurityHandler, encryptRef?: PDFRef) {
+  const parser = PDFParser.forBytesWithOptions(new Uint8Array(data));
+  const internals = parser as unknown as ParserInternals;
+  const parseHeader = internals.parseIndirectObjectHeader.bind(parser);
+  const parseObject = internals.parseObject.bind(parser);
+  let current: PDFRef | null = null;
+
+  internals.parseIndirectObjectHeader = () => {
+    current = parseHeader();
+    return current;
+  };
+  internals.parseObject = () => {
+    // 只有紧跟在 "n g obj" 之后的对象才是顶层对象，嵌套对象由递归调用解析
+    const ref = current;
+    current = null;
+    const obj = parseObject();
+    if (!ref || ref === encryptRef) return obj;
+    return transformObject(obj, ref, handler, decryptBytes);
+  };
+  return parser.parseDocument();
+}
+
+const serialize = async (context: PDFContext) =>
+  Buffer.from(await PDFWriter.forContext(context, 50).serializeToBuffer());
+
+/** 判断 trailer 中是否带有 Encrypt 字典 */
+export const isEncryptedPdf = (context: PDFContext) => context.trailerInfo.Encrypt !== undefined;
+
+/**
+ * 用密码解密 PDF。context 为以 ignoreEncryption 方式加载得到的上下文，用于读取 Encrypt 字典与文件 ID
+ */
+export async function decryptPdf(data: Buffer, context: PDFContext, password?: string): Promise<DecryptedPdf> {
+  if (!password) {
+    throw new EncryptedFileError('PDF 已加密，需要提供密码才能清理');
+  }
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encrypt = context.lookup(encryptRef);
+  if (!(encrypt instanceof PDFDict)) throw new Error('PDF 加密字典损坏');
+  const id = context.lookup(context.trailerInfo.ID);
+  const id0 = id instanceof PDFArray && id.size() > 0 && isString(id.get(0))
+    ? Buffer.from((id.get(0) as PDFString | PDFHexString).asBytes())
+    : Buffer.alloc(0);
+  const handler = openHandler(encrypt, id0, password);
+
+  const plain = await parseDecrypted(data, handler, encryptRef instanceof PDFRef ? encryptRef : undefined);
+  if (plain.trailerInfo.Encrypt instanceof PDFRef) plain.delete(plain.trailerInfo.Encrypt);
+  plain.trailerInfo.Encrypt = undefined;
+
+  const encryptDict = encrypt.clone();
+  const idArray = id instanceof PDFArray ? id.clone() : undefined;
+  return {
+    buffer: await serialize(plain),
+    async encrypt(cleaned: Buffer) {
+      const target = await PDFParser.forBytesWithOptions(new Uint8Array(cleaned)).parseDocument();
+      for (const [ref, obj] of target.enumerateIndirectObjects()) {
+        target.assign(ref, transformObject(obj, ref, handler, encryptBytes));
+      }
+      // Encrypt 字典在加密完成后才登记，本身保持明文
+      target.trailerInfo.Encrypt = target.register(encryptDict.clone(target));
+      target.trailerInfo.ID = idArray?.clone(target);
+      return serialize(target);
+    },
+  };
+}
@@ -1,36 +1,293 @@
 import fs from 'fs';
-import { PDFDocument, PDFName } from 'pdf-lib';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFObject, PDFRef, PDFStream } from 'pdf-lib';
+import { METADATA_KEYS, MetadataKey, isKept } from '../profiles';
+import { ProcessOptions } from '../types';
+import { decryptPdf, isEncryptedPdf } from './pdfEncryption';
 
-export async function processPdf(inputPath: string, outputPath: string) {
-  const data = await fs.promises.readFile(inputPath);
-  const pdfDoc = await PDFDocument.load(data, {
+export type PdfCleanOptions = Pick<ProcessOptions, 'profile' | 'keepPdfLinks' | 'keepPdfForms' | 'password'>;
+
+// Info 字典中的字段及其对应的保留配置键
+const INFO_FIELDS: Array<[MetadataKey, (doc: PDFDocument) => void]> = [
+  ['document.title', (doc) => doc.setTitle('')],
+  ['document.author', (doc) => doc.setAuthor('')],
+  ['document.subject', (doc) => doc.setSubject('')],
+  ['document.keywords', (doc) => doc.setKeywords([])],
+  ['document.application', (doc) => {
+    doc.setProducer('');
+    doc.setCreator('');
+  }],
+  ['document.language', (doc) => doc.setLanguage('')],
+];
+
+const LABELS = {
+  annots: '页面注释 (Annots)',
+  annotAuthors: '保留注释的作者/修改时间',
+  embeddedFiles: '嵌入附件 (EmbeddedFiles)',
+  javaScript: '文档 JavaScript',
+  openAction: '打开动作 (OpenAction)',
+  additionalActions: '附加动作 (AA)',
+  unsafeActions: '脚本/启动/提交动作',
+  acroForm: '表单字段及填写值 (AcroForm)',
+  formValues: '表单填写值',
+  pieceInfo: '应用私有数据 (PieceInfo)',
+  objectXmp: '页面/图像 XMP',
+  history: '增量更新历史/未引用对象',
+};
+
+// 目录字典中直接删除的条目；AF 为 PDF 2.0 的关联文件。保留表单时 AcroForm 单独处理
+const CATALOG_REMOVALS: Array<[string, string]> = [
+  ['OpenAction', LABELS.openAction],
+  ['AA', LABELS.additionalActions],
+  ['AF', LABELS.embeddedFiles],
+];
+
+// /Names 名称树中删除的条目
+const NAME_TREE_REMOVALS: Array<[string, string]> = [
+  ['EmbeddedFiles', LABELS.embeddedFiles],
+  ['JavaScript', LABELS.javaScript],
+];
+
+// 会执行脚本、启动外部程序或提交数据的动作类型
+const UNSAFE_ACTIONS = new Set(
+  ['JavaScript', 'Launch', 'SubmitForm', 'ImportData', 'Rendition'].map((name) => PDFName.of(name))
+);
+
+const isUnsafeAction = (doc: PDFDocument, value: PDFObject | undefined) => {
+  const action = value && doc.context.lookup(value);
+  return action instanceof PDFDict && UNSAFE_ACTIONS.has(action.get(PDFName.of('S')) as PDFName);
+};
+
+/**
+ * 从 trailer 出发遍历所有可达对象，对遇到的每个字典调用 onDict，返回可达的间接对象
+ */
+function walkPdf(doc: PDFDocument, onDict: (dict: PDFDict) => void) {
+  const { context } = doc;
+  const reachable = new Set<string>();
+  // 大纲等链表可能很长，用显式栈代替递归
+  const stack: PDFObject[] = [];
+  const { Root, Info, Encrypt } = context.trailerInfo;
+  for (const root of [Root, Info, Encrypt]) if (root) stack.push(root);
+
+  while (stack.length > 0) {
+    const obj = stack.pop()!;
+    if (obj instanceof PDFRef) {
+      if (reachable.has(obj.tag)) continue;
+      reachable.add(obj.tag);
+      const target = context.lookup(obj);
+      if (target) stack.push(target);
+    } else if (obj instanceof PDFStream) {
+      stack.push(obj.dict);
+    } else if (obj instanceof PDFDict) {
+      onDict(obj);
+      for (const [, value] of obj.entries()) stack.push(value);
+    } else if (obj instanceof PDFArray) {
+      stack.push(...obj.asArray());
+    }
+  }
+  return reachable;
+}
+
+/**
+ * 对单个字典删除私有数据、对象级 XMP、附加动作与危险动作，返回命中的类别
+ */
+function scrubDict(doc: PDFDocument, dict: PDFDict, found: Set<string>) {
+  if (dict.has(PDFName.of('PieceInfo'))) {
+    dict.delete(PDFName.of('PieceInfo'));
+    found.add(LABELS.pieceInfo);
+  }
+  if (dict.has(PDFName.of('Metadata'))) {
+    dict.delete(PDFName.of('Metadata'));
+    found.add(LABELS.objectXmp);
+  }
+  if (dict.has(PDFName.of('AA'))) {
+    dict.delete(PDFName.of('AA'));
+    found.add(LABELS.additionalActions);
+  }
+  // 大纲条目的 /A 与动作链 /Next 中的危险动作
+  for (const key of ['A', 'Next']) {
+    const value = dict.get(PDFName.of(key));
+    const resolved = value && doc.context.lookup(value);
+    const actions = resolved instanceof PDFArray ? resolved.asArray() : value ? [value] : [];
+    if (actions.some((action) => isUnsafeAction(doc, action))) {
+      dict.delete(PDFName.of(key));
+      found.add(LABELS.unsafeActions);
+    }
+  }
+}
+
+/**
+ * 展开 AcroForm 的字段树，返回所有字段字典（含非终端字段）
+ */
+function formFields(doc: PDFDocument, acroForm: PDFDict) {
+  const fields: PDFDict[] = [];
+  const stack = [...(acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray)?.asArray() ?? [])];
+  const seen = new Set<PDFDict>();
+  while (stack.length > 0) {
+    const field = doc.context.lookup(stack.pop());
+    if (!(field instanceof PDFDict) || seen.has(field)) continue;
+    seen.add(field);
+    fields.push(field);
+    stack.push(...(field.lookupMaybe(PDFName.of('Kids'), PDFArray)?.asArray() ?? []));
+  }
+  return fields;
+}
+
+/**
+ * 清空表单填写值但保留字段与控件：文本/选择字段删除外观流，由阅读器按空值重新生成；
+ * 复选框/单选按钮切回 Off 状态。XFA 中的 datasets 同样携带填写值，一并删除
+ */
+function clearFormValues(doc: PDFDocument, acroForm: PDFDict) {
+  let cleared = acroForm.has(PDFName.of('XFA'));
+  acroForm.delete(PDFName.of('XFA'));
+  for (const field of formFields(doc, acroForm)) {
+    if (field.has(PDFName.of('V'))) {
+      field.delete(PDFName.of('V'));
+      cleared = true;
+    }
+    if (field.get(PDFName.of('Subtype')) !== PDFName.of('Widget')) continue;
+    if (field.has(PDFName.of('AS'))) {
+      field.set(PDFName.of('AS'), PDFName.of('Off'));
+    } else if (field.has(PDFName.of('AP'))) {
+      field.delete(PDFName.of('AP'));
+      acroForm.set(PDFName.of('NeedAppearances'), doc.context.obj(true));
+    }
+  }
+  return cleared;
+}
+
+// 表单字段的 /T 是字段名而非作者，不能删除
+const isFormField = (annot: PDFDict) => annot.has(PDFName.of('FT')) || annot.has(PDFName.of('Parent'));
+
+/**
+ * 按配置筛选页面注释：链接与表单控件可保留，批注、高亮、墨迹等标记注释一律删除；
+ * 保留下来的注释删除作者 (/T) 与修改/创建时间
+ */
+function filterAnnotations(doc: PDFDocument, page: PDFDict, options: PdfCleanOptions, found: Set<string>) {
+  const annotsKey = PDFName.of('Annots');
+  const annots = page.lookupMaybe(annotsKey, PDFArray);
+  if (!page.has(annotsKey)) return;
+  const keptTypes = new Set<PDFName>();
+  if (options.keepPdfLinks) keptTypes.add(PDFName.of('Link'));
+  if (options.keepPdfForms) keptTypes.add(PDFName.of('Widget'));
+
+  const kept = (annots?.asArray() ?? []).filter((ref) => {
+    const annot = doc.context.lookup(ref);
+    return annot instanceof PDFDict && keptTypes.has(annot.get(PDFName.of('Subtype')) as PDFName);
+  });
+  if (kept.length < (annots?.size() ?? 1)) found.add(LABELS.annots);
+  if (kept.length === 0) {
+    page.delete(annotsKey);
+    return;
+  }
+  for (const ref of kept) {
+    const annot = doc.context.lookup(ref) as PDFDict;
+    const keys = ['M', 'CreationDate', ...(isFormField(annot) ? [] : ['T'])];
+    for (const key of keys) {
+      if (!annot.has(PDFName.of(key))) continue;
+      annot.delete(PDFName.of(key));
+      found.add(LABELS.annotAuthors);
+    }
+  }
+  page.set(annotsKey, doc.context.obj(kept));
+}
+
+/**
+ * 列出 PDF 中仍存在的附件、脚本、表单与私有数据类别，供检查与校验使用
+ */
+export function findPdfActiveContent(doc: PDFDocument) {
+  const found = new Set<string>();
+  const { catalog } = doc;
+  for (const [key, label] of CATALOG_REMOVALS) {
+    if (catalog.has(PDFName.of(key))) found.add(label);
+  }
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  for (const [key, label] of NAME_TREE_REMOVALS) {
+    if (names?.has(PDFName.of(key))) found.add(label);
+  }
+  const acroForm = catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (acroForm && (acroForm.has(PDFName.of('XFA')) || formFields(doc, acroForm).some((f) => f.has(PDFName.of('V'))))) {
+    found.add(LABELS.formValues);
+  }
+  walkPdf(doc, (dict) => {
+    if (dict !== catalog && dict.has(PDFName.of('Metadata'))) found.add(LABELS.objectXmp);
+    if (dict.has(PDFName.of('PieceInfo'))) found.add(LABELS.pieceInfo);
+    if (dict.has(PDFName.of('AA'))) found.add(LABELS.additionalActions);
+    if (isUnsafeAction(doc, dict.get(PDFName.of('A')))) found.add(LABELS.unsafeActions);
+  });
+  return Array.from(found);
+}
+
+export async function cleanPdfBuffer(data: Buffer, options: PdfCleanOptions = {}) {
+  const { profile } = options;
+  let pdfDoc = await PDFDocument.load(data, {
     updateMetadata: false,
     ignoreEncryption: true,
   });
+  // 加密文件先解密为明文再清理，保存后用原密码重新加密
+  const decrypted = isEncryptedPdf(pdfDoc.context)
+    ? await decryptPdf(data, pdfDoc.context, options.password)
+    : null;
+  if (decrypted) {
+    pdfDoc = await PDFDocument.load(decrypted.buffer, { updateMetadata: false });
+  }
 
-  pdfDoc.setTitle('');
-  pdfDoc.setAuthor('');
-  pdfDoc.setSubject('');
-  pdfDoc.setKeywords([]);
-  pdfDoc.setProducer('');
-  pdfDoc.setCreator('');
-  pdfDoc.setLanguage('');
+  const kept: string[] = [];
+  for (const [key, clear] of INFO_FIELDS) {
+    if (isKept(profile, key)) kept.push(METADATA_KEYS[key]);
+    else clear(pdfDoc);
+  }
 
-  const metadataRef = pdfDoc.catalog.get(PDFName.of('Metadata'));
+  const { catalog } = pdfDoc;
+  const found = new Set<string>();
+  const metadataRef = catalog.get(PDFName.of('Metadata'));
   if (metadataRef) {
-    pdfDoc.catalog.delete(PDFName.of('Metadata'));
+    catalog.delete(PDFName.of('Metadata'));
+  }
+  for (const [key, label] of CATALOG_REMOVALS) {
+    if (!catalog.has(PDFName.of(key))) continue;
+    catalog.delete(PDFName.of(key));
+    found.add(label);
+  }
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  for (const [key, label] of NAME_TREE_REMOVALS) {
+    if (!names?.has(PDFName.of(key))) continue;
+    names.delete(PDFName.of(key));
+    found.add(label);
+  }
+  const acroForm = catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (acroForm && options.keepPdfForms) {
+    if (clearFormValues(pdfDoc, acroForm)) found.add(LABELS.formValues);
+  } else if (catalog.has(PDFName.of('AcroForm'))) {
+    catalog.delete(PDFName.of('AcroForm'));
+    found.add(LABELS.acroForm);
   }
 
-  const pages = pdfDoc.getPages();
-  for (const page of pages) {
-    const annotsKey = PDFName.of('Annots');
-    if (page.node.has(annotsKey)) {
-      page.node.delete(annotsKey);
-    }
+  for (const page of pdfDoc.getPages()) {
+    filterAnnotations(pdfDoc, page.node, options, found);
+  }
+
+  // 删除上述条目后，附件、表单字段等对象不再可达，连同旧版本遗留的对象一并丢弃；
+  // 保存时整体重写文件，不保留增量更新
+  const reachable = walkPdf(pdfDoc, (dict) => scrubDict(pdfDoc, dict, found));
+  let orphans = 0;
+  for (const [ref] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (reachable.has(ref.tag)) continue;
+    pdfDoc.context.delete(ref);
+    orphans++;
   }
+  const revisions = data.toString('latin1').match(/%%EOF/g)?.length ?? 0;
+  if (orphans > 0 || revisions > 1) found.add(LABELS.history);
 
-  const cleaned = await pdfDoc.save({ useObjectStreams: false });
-  await fs.promises.writeFile(outputPath, cleaned);
+  const saved = Buffer.from(await pdfDoc.save({ useObjectStreams: false }));
+  const cleaned = decrypted ? await decrypted.encrypt(saved) : saved;
+  const info = kept.length > 0 ? `Info/XMP (保留 ${kept.join('、')})` : 'Info/XMP';
+  return { buffer: cleaned, removed: [info, ...found] };
+}
+
+export async function processPdf(inputPath: string, outputPath: string, options: PdfCleanOptions = {}) {
+  const data = await fs.promises.readFile(inputPath);
+  const { buffer, removed } = await cleanPdfBuffer(data, options);
+  await fs.promises.writeFile(outputPath, buffer);
 
-  return { removed: ['Info/XMP', '注释/表单默认值'], type: 'pdf' };
+  return { removed, type: 'pdf' };
 }
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import { MetadataKey, isKept } from '../profiles';
+import { MetadataProfile } from '../types';
+import { UnsupportedFormatError } from '../errors';
+
+// DNG/CR2/NEF/ARW 均为 TIFF 结构。原始图像数据与厂商 MakerNote 关系紧密，
+// 因此只在原位置清空隐私标签的值，不增删条目、不移动任何偏移
+
+// TIFF 字段类型对应的单个值字节数
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4,
+};
+
+const TAG_SUB_IFDS = 0x014a;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+
+// 需要清空的标签：标签号 -> [名称, 说明, 可保留的配置键]
+const PRIVATE_TAGS: Record<number, [string, string, MetadataKey?]> = {
+  0x013b: ['Artist', '作者/所有者', 'exif.artist'],
+  0x8298: ['Copyright', '版权信息', 'exif.copyright'],
+  0xa430: ['CameraOwnerName', '作者/所有者'],
+  0x013c: ['HostComputer', '主机名称'],
+  0xa431: ['BodySerialNumber', '机身/镜头序列号'],
+  0xa435: ['LensSerialNumber', '机身/镜头序列号'],
+  0xc62f: ['CameraSerialNumber', '机身/镜头序列号'],
+  0xa420: ['ImageUniqueID', '图像唯一标识'],
+  0x02bc: ['XMP', 'XMP'],
+  0x83bb: ['IPTC', 'IPTC'],
+};
+
+type IfdKind = 'IFD0' | 'SubIFD' | 'Exif' | 'GPS';
+
+interface TiffEntry {
+  kind: IfdKind;
+  tag: number;
+  type: number;
+  valuePos: number;
+  byteLength: number;
+}
+
+interface GpsIfd {
+  pos: number;
+  count: number;
+}
+
+function parseTiff(data: Buffer) {
+  const order = data.toString('latin1', 0, 2);
+  if (data.length < 8 || (order !== 'II' && order !== 'MM')) return null;
+  const le = order === 'II';
+  const u16 = (pos: number) => (le ? data.readUInt16LE(pos) : data.readUInt16BE(pos));
+  const u32 = (pos: number) => (le ? data.readUInt32LE(pos) : data.readUInt32BE(pos));
+  if (u16(2) !== 42) return null;
+
+  const entries: TiffEntry[] = [];
+  const gpsIfds: GpsIfd[] = [];
+  const visited = new Set<number>();
+
+  const walk = (start: number, kind: IfdKind, followChain: boolean) => {
+    let offset = start;
+    while (offset > 0 && offset + 2 <= data.length && !visited.has(offset)) {
+      visited.add(offset);
+      const count = u16(offset);
+      const tableEnd = offset + 2 + count * 12;
+      if (tableEnd + 4 > data.length) throw new Error('TIFF IFD 越界');
+      if (kind === 'GPS') gpsIfds.push({ pos: offset, count });
+
+      const pointers: Array<[number, IfdKind, boolean]> = [];
+      for (let i = 0; i < count; i++) {
+        const p = offset + 2 + i * 12;
+        const tag = u16(p);
+        const type = u16(p + 2);
+        const byteLength = (TYPE_SIZES[type] ?? 1) * u32(p + 4);
+        const valuePos = byteLength <= 4 ? p + 8 : u32(p + 8);
+        if (valuePos + byteLength > data.length) continue;
+        entries.push({ kind, tag, type, valuePos, byteLength });
+        if (kind === 'GPS') continue;
+        if (tag === TAG_EXIF_IFD) pointers.push([u32(valuePos), 'Exif', false]);
+        if (tag === TAG_GPS_IFD) pointers.push([u32(valuePos), 'GPS', false]);
+        if (tag === TAG_SUB_IFDS) {
+          for (let j = 0; j + 4 <= byteLength; j += 4) pointers.push([u32(valuePos + j), 'SubIFD', true]);
+        }
+      }
+      for (const [target, targetKind, chain] of pointers) walk(target, targetKind, chain);
+      offset = followChain ? u32(tableEnd) : 0;
+    }
+  };
+  walk(u32(4), 'IFD0', true);
+  return { entries, gpsIfds };
+}
+
+const isBlank = (data: Buffer, start: number, end: number) => data.subarray(start, end).every((b) => b === 0);
+
+function describeValue(data: Buffer, entry: TiffEntry) {
+  const raw = data.subarray(entry.valuePos, entry.valuePos + entry.byteLength);
+  return entry.type === 2 ? raw.toString('utf8').replace(/\0+$/, '').trim() : `${raw.length} 字节`;
+}
+
+/**
+ * 列出 RAW 文件中仍带值的隐私标签，GPS 以条目数表示
+ */
+export function readRawPrivacyTags(data: Buffer): Record<string, string> {
+  const tiff = parseTiff(data);
+  const result: Record<string, string> = {};
+  if (!tiff) return result;
+  for (const entry of tiff.entries) {
+    const info = PRIVATE_TAGS[entry.tag];
+    if (!info || entry.kind === 'GPS' || isBlank(data, entry.valuePos, entry.valuePos + entry.byteLength)) continue;
+    const value = describeValue(data, entry);
+    if (value) result[info[0]] = value;
+  }
+  const gpsCount = tiff.gpsIfds.reduce((sum, ifd) => sum + ifd.count, 0);
+  if (gpsCount > 0) result.GPSInfo = `${gpsCount} 项`;
+  return result;
+}
+
+export function cleanRawBuffer(input: Buffer, profile?: MetadataProfile) {
+  const tiff = parseTiff(input);
+  if (!tiff) {
+    throw new UnsupportedFormatError('该 RAW 文件不是 TIFF 结构，无法原位清理，需转换格式才能清除元数据，已跳过');
+  }
+  const data = Buffer.from(input);
+  const removed = new Set<string>();
+
+  for (const entry of tiff.entries) {
+    const info = PRIVATE_TAGS[entry.tag];
+    if (!info || entry.kind === 'GPS') continue;
+    const [, label, profileKey] = info;
+    if (profileKey && isKept(profile, profileKey)) continue;
+    if (isBlank(data, entry.valuePos, entry.valuePos + entry.byteLength)) continue;
+    data.fill(0, entry.valuePos, entry.valuePos + entry.byteLength);
+    removed.add(label);
+  }
+
+  // GPS IFD 整体清空：条目外的数据、条目表与下一 IFD 指针全部置零，条目数随之为 0
+  for (const entry of tiff.entries) {
+    if (entry.kind === 'GPS' && entry.byteLength > 4) {
+      data.fill(0, entry.valuePos, entry.valuePos + entry.byteLength);
+    }
+  }
+  for (const gps of tiff.gpsIfds) {
+    if (gps.count === 0) continue;
+    data.fill(0, gps.pos, gps.pos + 2 + gps.count * 12 + 4);
+    removed.add('GPS 定位信息');
+  }
+
+  return { buffer: data, removed: Array.from(removed) };
+}
+
+export async function processRaw(inputPath: string, outputPath: string, profile?: MetadataProfile) {
+  const data = await fs.promises.readFile(inputPath);
+  const { buffer, removed } = cleanRawBuffer(data, profile);
+  await fs.promises.writeFile(outputPath, buffer);
+  return { removed, type: 'raw' };
+}
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { path7za } from '7zip-bin';
+import { processBufferByType } from '../processorRouter';
+import { ProcessOptions } from '../types';
+import { CancelledError, UnsupportedFormatError } from '../errors';
+import { DEFAULT_ARCHIVE_DEPTH } from './zipProcessor';
+
+// 处理 ASAR 打包后的路径，7za 位于 app.asar.unpacked 目录
+const SEVEN_ZIP = path7za.replace('app.asar', 'app.asar.unpacked');
+
+/**
+ * 运行 7za 并返回标准输出；加密的压缩包按不支持处理
+ */
+function run7za(args: string[], options: { cwd?: string; signal?: AbortSignal } = {}) {
+  const { cwd, signal } = options;
+  if (signal?.aborted) return Promise.reject(new CancelledError());
+  return new Promise<string>((resolve, reject) => {
+    execFile(SEVEN_ZIP, [...args, '-y', '-bd'], { cwd, signal, maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+      if (signal?.aborted) return reject(new CancelledError());
+      if (!err) return resolve(stdout);
+      if (/Wrong password|encrypted archive/i.test(`${stdout}\n${stderr}`)) {
+        return reject(new UnsupportedFormatError('暂不支持清理加密的 7z 压缩包，已跳过'));
+      }
+      reject(new Error('无法解析该 7z 压缩包，可能文件已损坏。'));
+    });
+  });
+}
+
+/**
+ * 递归列出目录中的普通文件（相对路径，以 / 分隔），符号链接不跟随
+ */
+async function listFiles(root: string, dir = ''): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.promises.readdir(path.join(root, dir), { withFileTypes: true })) {
+    const name = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) files.push(...(await listFiles(root, name)));
+    else if (entry.isFile()) files.push(name);
+  }
+  return files;
+}
+
+/**
+ * 统计 7z 中的条目数量。-p 传入空密码，避免加密的压缩包等待输入
+ */
+export async function countSevenZipEntries(filePath: string) {
+  const listing = await run7za(['l', '-slt', '-p', filePath]);
+  // 分隔线之前是压缩包本身的信息
+  const entries = listing.slice(listing.indexOf('\n----------\n') + 1);
+  return entries.match(/^Path = /gm)?.length ?? 0;
+}
+
+/**
+ * 解压到临时目录，普通文件交给对应处理器递归清理后重新压缩；
+ * 重新压缩时不写入修改/创建/访问时间
+ */
+export async function processSevenZip(
+  inputPath: string,
+  outputPath: string,
+  options: Partial<ProcessOptions> = {},
+  depth = 1
+) {
+  const { signal } = options;
+  const maxDepth = options.archiveDepth ?? DEFAULT_ARCHIVE_DEPTH;
+  const removed: string[] = [];
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'info-remover-'));
+  try {
+    const filesDir = path.join(dir, 'files');
+    const packed = path.join(dir, 'output.7z');
+    await run7za(['x', '-p', `-o${filesDir}`, path.resolve(inputPath)], { signal });
+    await fs.promises.mkdir(filesDir, { recursive: true });
+
+    if (depth <= maxDepth) {
+      for (const name of await listFiles(filesDir)) {
+        const filePath = path.join(filesDir, name);
+        try {
+          const cleaned = await processBufferByType(name, await fs.promises.readFile(filePath), options, depth);
+          if (cleaned) {
+            await fs.promises.writeFile(filePath, cleaned.buffer);
+            removed.push(...cleaned.removed.map((item) => `${name}: ${item}`));
+          }
+        } catch (err) {
+          if (err instanceof CancelledError) throw err;
+          removed.push(`${name}: 未能清理 (${err instanceof Error ? err.message : '处理失败'})`);
+        }
+      }
+    }
+
+    await run7za(['a', '-t7z', '-mtm=off', '-mtc=off', '-mta=off', packed, '.'], { cwd: filesDir, signal });
+    await fs.promises.copyFile(packed, outputPath);
+    removed.push('修改/创建/访问时间');
+    return { removed, type: 'archive' };
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 7za 只能处理文件，压缩包内的 7z 先落地到临时目录再清理
+ */
+export async function cleanSevenZipBuffer(data: Buffer, options: Partial<ProcessOptions> = {}, depth = 1) {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'info-remover-'));
+  try {
+    const inputPath = path.join(dir, 'input.7z');
+    const outputPath = path.join(dir, 'output.7z');
+    await fs.promises.writeFile(inputPath, data);
+    const { removed } = await processSevenZip(inputPath, outputPath, options, depth);
+    return { buffer: await fs.promises.readFile(outputPath), removed };
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
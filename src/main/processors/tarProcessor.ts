@@ -0,0 +1,123 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import tar from 'tar-stream';
+import { processBufferByType } from '../processorRouter';
+import { ProcessOptions } from '../types';
+import { CancelledError } from '../errors';
+import { DEFAULT_ARCHIVE_DEPTH } from './zipProcessor';
+
+interface TarEntry {
+  header: Partial<tar.Header> & Pick<tar.Header, 'name'>;
+  content: Buffer;
+}
+
+// 只保留重建归档所需的条目类型，设备文件等特殊条目直接丢弃
+const KEPT_TYPES = new Set(['file', 'contiguous-file', 'directory', 'symlink', 'link']);
+
+const isGzip = (data: Buffer) => data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+
+async function readEntries(data: Buffer): Promise<TarEntry[]> {
+  const extract = tar.extract();
+  const entries: TarEntry[] = [];
+  const done = (async () => {
+    for await (const entry of extract) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of entry) chunks.push(chunk as Buffer);
+      entries.push({ header: entry.header, content: Buffer.concat(chunks) });
+    }
+  })();
+  extract.end(data);
+  await done;
+  return entries;
+}
+
+async function writeEntries(entries: TarEntry[]): Promise<Buffer> {
+  const pack = tar.pack();
+  const chunks: Buffer[] = [];
+  const collected = (async () => {
+    for await (const chunk of pack) chunks.push(chunk as Buffer);
+  })();
+  for (const { header, content } of entries) {
+    await new Promise<void>((resolve, reject) => {
+      pack.entry(header, content, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+  pack.finalize();
+  await collected;
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 统计 tar / tar.gz 中的条目数量
+ */
+export async function countTarEntries(data: Buffer) {
+  const entries = await readEntries(isGzip(data) ? zlib.gunzipSync(data) : data);
+  return entries.length;
+}
+
+/**
+ * 重建 tar / tar.gz：属主信息与修改时间清零，PAX 扩展头不再写出，
+ * 普通文件交给对应处理器递归清理
+ */
+export async function cleanTarBuffer(data: Buffer, options: Partial<ProcessOptions> = {}, depth = 1) {
+  const gzipped = isGzip(data);
+  const raw = gzipped ? zlib.gunzipSync(data) : data;
+  const maxDepth = options.archiveDepth ?? DEFAULT_ARCHIVE_DEPTH;
+  const removed: string[] = [];
+  const rebuilt: TarEntry[] = [];
+
+  for (const { header, content } of await readEntries(raw)) {
+    if (!header.type || !KEPT_TYPES.has(header.type)) {
+      removed.push(`${header.name}: 特殊条目 (${header.type})`);
+      continue;
+    }
+    let cleanedContent = content;
+    if (header.type === 'file' && depth <= maxDepth) {
+      try {
+        const cleaned = await processBufferByType(header.name, content, options, depth);
+        if (cleaned) {
+          cleanedContent = cleaned.buffer;
+          removed.push(...cleaned.removed.map((item) => `${header.name}: ${item}`));
+        }
+      } catch (err) {
+        if (err instanceof CancelledError) throw err;
+        removed.push(`${header.name}: 未能清理 (${err instanceof Error ? err.message : '处理失败'})`);
+      }
+    }
+    rebuilt.push({
+      header: {
+        name: header.name,
+        type: header.type,
+        mode: header.mode,
+        linkname: header.linkname,
+        size: header.type === 'file' || header.type === 'contiguous-file' ? cleanedContent.length : 0,
+        uid: 0,
+        gid: 0,
+        uname: '',
+        gname: '',
+        mtime: new Date(0),
+      },
+      content: cleanedContent,
+    });
+  }
+
+  const packed = await writeEntries(rebuilt);
+  removed.push('uid/gid/用户名/组名', '修改时间', 'PAX 扩展头');
+  if (gzipped) {
+    // zlib 写出的 gzip 头不含原文件名，时间戳为 0
+    removed.push('gzip 头部文件名/时间');
+    return { buffer: zlib.gzipSync(packed), removed };
+  }
+  return { buffer: packed, removed };
+}
+
+export async function processTar(
+  inputPath: string,
+  outputPath: string,
+  options: Partial<ProcessOptions> = {}
+) {
+  const data = await fs.promises.readFile(inputPath);
+  const { buffer, removed } = await cleanTarBuffer(data, options);
+  await fs.promises.writeFile(outputPath, buffer);
+  return { removed, type: 'archive' };
+}
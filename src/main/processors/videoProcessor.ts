@@ -1,31 +1,138 @@
-import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ffmpeg, { FfprobeData, FfprobeStream } from 'fluent-ffmpeg';
 import ffmpegPath from 'ffmpeg-static';
 import ffprobePath from 'ffprobe-static';
+import { ProcessOptions } from '../types';
+import { keptMediaTags, probeMedia, runFfmpeg, useMuxerFor } from './mediaTags';
 
 if (ffmpegPath) ffmpeg.setFfmpegPath(ffmpegPath);
 if (ffprobePath) ffmpeg.setFfprobePath(ffprobePath.path);
 
-export async function processVideo(inputPath: string, outputPath: string) {
-  return new Promise((resolve, reject) => {
-    ffmpeg(inputPath)
-      .outputOptions([
-        '-map_metadata -1', // 移除全局元数据
-        '-map_chapters -1', // 移除章节信息
-        '-metadata encoder=', // 显式清空编码器信息
-        '-fflags +bitexact',  // 启用位精确模式，减少额外标记
-        '-flags:v +bitexact', // 视频流位精确
-        '-flags:a +bitexact', // 音频流位精确
-        '-c copy',           // 流拷贝，不重新编码，极快
-      ])
-      .on('end', () => {
-        resolve({
-          removed: ['全局元数据 (Title/Artist/Creation Time)', '流元数据', '章节信息', '硬件/编码器信息'],
-          type: 'video',
-        });
-      })
-      .on('error', (err) => {
-        reject(err);
-      })
-      .save(outputPath);
+export type VideoCleanOptions = Pick<
+  ProcessOptions,
+  'profile' | 'keepLanguage' | 'keepSubtitles' | 'signal' | 'onProgress'
+>;
+
+// 容器结构字段，由 muxer 重新生成，不计入清理报告
+const STRUCTURAL_TAGS = new Set(['major_brand', 'minor_version', 'compatible_brands']);
+
+// QuickTime ©xyz、Apple mdta 与 Android 写入的位置标签
+const LOCATION_TAG = /location|xyz/i;
+
+interface StreamPlan {
+  // 按输出顺序映射的输入流序号
+  mapped: FfprobeStream[];
+  removed: string[];
+}
+
+const tagNames = (tags: Record<string, unknown> | undefined) =>
+  Object.entries(tags ?? {})
+    .filter(([name, value]) => !STRUCTURAL_TAGS.has(name.toLowerCase()) && String(value).trim() !== '')
+    .map(([name]) => name);
+
+const summarize = (names: string[]) => (names.length > 5 ? `${names.slice(0, 5).join('、')} 等` : names.join('、'));
+
+/**
+ * 根据 ffprobe 结果决定保留哪些流，并列出实际存在、将被删除的元数据
+ */
+function planStreams(probe: FfprobeData, options: VideoCleanOptions, keptTags: Record<string, string>): StreamPlan {
+  const mapped: FfprobeStream[] = [];
+  const removed: string[] = [];
+  const attachments: string[] = [];
+  let covers = 0;
+  let dataStreams = 0;
+  let subtitles = 0;
+
+  for (const stream of probe.streams) {
+    if (stream.codec_type === 'video' && stream.disposition?.attached_pic === 1) covers++;
+    else if (stream.codec_type === 'video' || stream.codec_type === 'audio') mapped.push(stream);
+    else if (stream.codec_type === 'subtitle' && options.keepSubtitles) mapped.push(stream);
+    else if (stream.codec_type === 'subtitle') subtitles++;
+    else if (stream.codec_type === 'attachment') attachments.push(stream.tags?.filename ?? `#${stream.index}`);
+    // GPS 轨迹、时间码与 Apple mebx 元数据轨道均以数据流形式存在
+    else dataStreams++;
+  }
+
+  const globalTags = tagNames(probe.format.tags).filter((name) => !(name.toLowerCase() in keptTags));
+  const locationTags = globalTags.filter((name) => LOCATION_TAG.test(name));
+  const otherTags = globalTags.filter((name) => !LOCATION_TAG.test(name));
+  if (locationTags.length > 0) removed.push(`GPS 定位信息 (${summarize(locationTags)})`);
+  if (otherTags.length > 0) removed.push(`全局元数据 (${summarize(otherTags)})`);
+
+  const streamTags = new Set<string>();
+  for (const stream of mapped) {
+    for (const name of tagNames(stream.tags)) {
+      if (options.keepLanguage && name.toLowerCase() === 'language') continue;
+      streamTags.add(name);
+    }
+  }
+  if (streamTags.size > 0) removed.push(`流元数据 (${summarize(Array.from(streamTags))})`);
+  if (probe.chapters.length > 0) removed.push(`章节信息 (${probe.chapters.length} 个)`);
+  if (attachments.length > 0) removed.push(`附件 (${summarize(attachments)})`);
+  if (covers > 0) removed.push('封面图片');
+  if (subtitles > 0) removed.push(`字幕轨道 (${subtitles} 条)`);
+  if (dataStreams > 0) removed.push(`数据流 (${dataStreams} 条)`);
+  return { mapped, removed };
+}
+
+/**
+ * ext 为按内容识别出的容器扩展名，缺省时取文件名的扩展名
+ */
+export async function processVideo(
+  inputPath: string,
+  outputPath: string,
+  options: VideoCleanOptions = {},
+  ext = path.extname(inputPath).toLowerCase()
+) {
+  const probe = await probeMedia(inputPath);
+  if (!probe) throw new Error('无法读取视频流信息，文件可能已损坏');
+  const keptTags = keptMediaTags(probe, options.profile);
+  const { mapped, removed } = planStreams(probe, options, keptTags);
+
+  const command = ffmpeg(inputPath)
+    .outputOptions([
+      '-map_metadata -1', // 移除全局元数据
+      '-map_metadata:s -1', // 移除流元数据 (handler_name、vendor_id、轨道名称等)
+      '-map_chapters -1', // 移除章节信息
+      '-metadata encoder=', // 显式清空编码器信息
+      '-fflags +bitexact',  // 启用位精确模式，减少额外标记
+      '-flags:v +bitexact', // 视频流位精确
+      '-flags:a +bitexact', // 音频流位精确
+      '-c copy',           // 流拷贝，不重新编码，极快
+    ]);
+  // 只映射音视频（及按需保留的字幕）流，附件、封面与数据流不写入输出
+  for (const stream of mapped) command.outputOptions('-map', `0:${stream.index}`);
+  mapped.forEach((stream, outputIndex) => {
+    const language = stream.tags?.language;
+    if (options.keepLanguage && language && language !== 'und') {
+      command.outputOptions(`-metadata:s:${outputIndex}`, `language=${language}`);
+    }
   });
+  for (const [name, value] of Object.entries(keptTags)) {
+    // 逐项传参，避免标签值中的空格被 fluent-ffmpeg 拆分
+    command.outputOptions('-metadata', `${name}=${value}`);
+  }
+  useMuxerFor(command, ext, outputPath);
+  await runFfmpeg(command, outputPath, options);
+
+  return { removed, type: 'video' };
+}
+
+/**
+ * ffmpeg 只能处理文件，压缩包内的视频先落地到临时目录再清理
+ */
+export async function cleanVideoBuffer(data: Buffer, ext: string, options: VideoCleanOptions = {}) {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'info-remover-'));
+  try {
+    const inputPath = path.join(dir, `input${ext}`);
+    const outputPath = path.join(dir, `output${ext}`);
+    await fs.promises.writeFile(inputPath, data);
+    // 条目进度无法换算为外层文件的进度，只传递取消信号
+    const { removed } = await processVideo(inputPath, outputPath, { ...options, onProgress: undefined });
+    return { buffer: await fs.promises.readFile(outputPath), removed };
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
 }
@@ -0,0 +1,34 @@
+import JSZip from 'jszip';
+
+// 所有条目统一使用 DOS 时间起点，避免泄露打包/修改时间
+export const NORMALIZED_DATE = new Date(1980, 0, 1, 0, 0, 0);
+
+export const MIMETYPE_ENTRY = 'mimetype';
+
+/**
+ * 按 OpenDocument / EPUB 规范重建压缩包：mimetype 为第一个条目且不压缩，
+ * 其余条目沿用原顺序，所有时间戳统一为 NORMALIZED_DATE
+ */
+export async function rebuildWithMimetypeFirst(zip: JSZip) {
+  const mimetype = zip.file(MIMETYPE_ENTRY);
+  if (!mimetype) {
+    throw new Error('缺少 mimetype 条目');
+  }
+  const rebuilt = new JSZip();
+  rebuilt.file(MIMETYPE_ENTRY, await mimetype.async('nodebuffer'), {
+    compression: 'STORE',
+    date: NORMALIZED_DATE,
+  });
+  for (const entry of Object.values(zip.files)) {
+    if (entry.name === MIMETYPE_ENTRY) continue;
+    if (entry.dir) {
+      rebuilt.file(entry.name, null, { dir: true, date: NORMALIZED_DATE });
+      continue;
+    }
+    rebuilt.file(entry.name, await entry.async('nodebuffer'), {
+      binary: true,
+      date: NORMALIZED_DATE,
+    });
+  }
+  return rebuilt.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
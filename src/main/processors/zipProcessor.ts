@@ -1,26 +1,61 @@
 import fs from 'fs';
 import JSZip from 'jszip';
+import { processBufferByType } from '../processorRouter';
+import { ProcessOptions } from '../types';
+import { CancelledError } from '../errors';
+import { NORMALIZED_DATE } from './zipPackage';
 
-export async function processZip(inputPath: string, outputPath: string) {
-  const data = await fs.promises.readFile(inputPath);
+export const DEFAULT_ARCHIVE_DEPTH = 2;
+
+/**
+ * 重建 ZIP：逐个条目交给对应处理器清理，统一时间戳，并丢弃注释与扩展字段。
+ * depth 为当前压缩包的嵌套层数（最外层为 1），超过 archiveDepth 的嵌套包只重打包不清理内容
+ */
+export async function cleanZipBuffer(data: Buffer, options: Partial<ProcessOptions> = {}, depth = 1) {
   const zip = await JSZip.loadAsync(data);
   const rebuilt = new JSZip();
+  const maxDepth = options.archiveDepth ?? DEFAULT_ARCHIVE_DEPTH;
+  const removed: string[] = [];
 
   const entries = Object.values(zip.files);
   for (const entry of entries) {
     if (entry.dir) {
-      rebuilt.folder(entry.name);
+      rebuilt.file(entry.name, null, { dir: true, date: NORMALIZED_DATE });
       continue;
     }
-    const content = await entry.async('nodebuffer');
-    rebuilt.file(entry.name, content, { date: entry.date, binary: true });
+    let content = await entry.async('nodebuffer');
+    if (depth <= maxDepth) {
+      try {
+        const cleaned = await processBufferByType(entry.name, content, options, depth);
+        if (cleaned) {
+          content = cleaned.buffer;
+          removed.push(...cleaned.removed.map((item) => `${entry.name}: ${item}`));
+        }
+      } catch (err) {
+        if (err instanceof CancelledError) throw err;
+        // 单个条目失败时保留原始内容，并在报告中注明
+        removed.push(`${entry.name}: 未能清理 (${err instanceof Error ? err.message : '处理失败'})`);
+      }
+    }
+    rebuilt.file(entry.name, content, { date: NORMALIZED_DATE, binary: true });
   }
 
   const buffer = await rebuilt.generateAsync({
     type: 'nodebuffer',
     compression: 'DEFLATE',
   });
+  removed.push('ZIP 注释/附加头', '条目时间戳');
+  return { buffer, removed };
+}
+
+export async function processZip(
+  inputPath: string,
+  outputPath: string,
+  options: Partial<ProcessOptions> = {}
+) {
+  const data = await fs.promises.readFile(inputPath);
+  const { buffer, removed } = await cleanZipBuffer(data, options);
   await fs.promises.writeFile(outputPath, buffer);
 
-  return { removed: ['ZIP 注释/附加头'], type: 'zip' };
+  return { removed, type: 'zip' };
 }
@@ -0,0 +1,76 @@
+import { MetadataProfile } from './types';
+
+// 各处理器能够按需保留的元数据键；不在此列的元数据（GPS、相机序列号、XMP 等）总是删除。
+// 图像方向与字节级清理时的 ICC 属于结构信息，总是保留；image.icc 只决定需要重新编码的图片
+// 是否保留 ICC，不保留时转换到 sRGB
+export const METADATA_KEYS = {
+  'image.icc': 'ICC 色彩配置（重新编码时）',
+  'exif.copyright': 'EXIF 版权',
+  'exif.artist': 'EXIF 作者',
+  'exif.camera': '相机厂商/型号',
+  'exif.datetime': '拍摄时间',
+  'document.title': '文档标题',
+  'document.subject': '文档主题',
+  'document.keywords': '关键词',
+  'document.author': '文档作者',
+  'document.language': '文档语言',
+  'document.application': '创建程序',
+  'media.title': '音视频标题',
+  'media.artist': '艺术家',
+  'media.copyright': '音视频版权',
+  'media.cover': '音频封面',
+} as const;
+
+export type MetadataKey = keyof typeof METADATA_KEYS;
+
+export const DEFAULT_PROFILE_ID = 'strict';
+
+export const BUILTIN_PROFILES: MetadataProfile[] = [
+  { id: 'strict', name: '严格（全部删除）', keep: [] },
+  {
+    id: 'keep-copyright',
+    name: '保留版权与作者',
+    keep: ['image.icc', 'exif.copyright', 'exif.artist', 'media.copyright'],
+    remove: ['exif.camera', 'exif.datetime'],
+  },
+  {
+    id: 'keep-titles',
+    name: '保留文档标题',
+    keep: ['document.title', 'media.title'],
+    remove: ['document.author'],
+  },
+];
+
+const matches = (pattern: string, key: string) =>
+  pattern === key || (pattern.endsWith('.*') && key.startsWith(pattern.slice(0, -1)));
+
+/**
+ * 判断某个元数据键在给定配置下是否保留；未指定配置时一律删除
+ */
+export function isKept(profile: MetadataProfile | undefined, key: MetadataKey) {
+  if (!profile) return false;
+  if (profile.remove?.some((pattern) => matches(pattern, key))) return false;
+  return profile.keep.some((pattern) => matches(pattern, key));
+}
+
+/**
+ * 列出配置中实际保留的键，用于在处理结果中说明
+ */
+export function keptKeys(profile: MetadataProfile | undefined, prefix = '') {
+  return (Object.keys(METADATA_KEYS) as MetadataKey[]).filter(
+    (key) => key.startsWith(prefix) && isKept(profile, key)
+  );
+}
+
+/**
+ * 内置配置在前，用户自定义配置同 id 时覆盖内置配置
+ */
+export function listProfiles(custom: MetadataProfile[] = []) {
+  const merged = new Map(BUILTIN_PROFILES.map((p) => [p.id, p]));
+  for (const profile of custom) merged.set(profile.id, profile);
+  return Array.from(merged.values());
+}
+
+export function findProfile(id: string | undefined, custom: MetadataProfile[] = []) {
+  return listProfiles(custom).find((p) => p.id === (id || DEFAULT_PROFILE_ID));
+}
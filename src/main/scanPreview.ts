@@ -0,0 +1,63 @@
+import fs from 'fs';
+import { detectFormat } from './formats';
+import { inspectRemovableMetadata } from './outputVerifier';
+import { ProcessItem, ProcessOptions, ScanResult, ScanSummary, ScannedFile } from './types';
+
+// 读取元数据需要解析整个文件（PDF）或启动 ffprobe，限制同时检查的文件数
+const PREVIEW_CONCURRENCY = 4;
+
+async function classify(item: ProcessItem, options: Partial<ProcessOptions>): Promise<ScannedFile> {
+  const file: ScannedFile = { ...item, size: 0 };
+  try {
+    file.size = (await fs.promises.stat(item.path)).size;
+    const { type, mime } = await detectFormat(item.path);
+    file.mime = mime;
+    if (!type) return file;
+    file.type = type;
+    const { encrypted, removable } = await inspectRemovableMetadata(item.path, options);
+    if (encrypted) file.encrypted = true;
+    file.removable = removable;
+  } catch {
+    // 无法读取的文件按不支持展示，处理时会给出具体错误
+  }
+  return file;
+}
+
+export function summarizeScan(files: ScannedFile[]): ScanSummary {
+  const summary: ScanSummary = {
+    total: files.length,
+    totalBytes: 0,
+    byType: {},
+    unsupported: 0,
+    encrypted: 0,
+    withMetadata: 0,
+  };
+  for (const file of files) {
+    summary.totalBytes += file.size;
+    if (!file.type) summary.unsupported++;
+    else summary.byType[file.type] = (summary.byType[file.type] ?? 0) + 1;
+    if (file.encrypted) summary.encrypted++;
+    if (file.removable?.length) summary.withMetadata++;
+  }
+  return summary;
+}
+
+/**
+ * 在处理前为扫描到的文件识别类型、MIME 与可删除的元数据，供界面预览与取消勾选。
+ * options 中的保留配置决定哪些元数据不计为可删除
+ */
+export async function previewScan(
+  items: ProcessItem[],
+  options: Partial<ProcessOptions> = {}
+): Promise<ScanResult> {
+  const files: ScannedFile[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      files[index] = await classify(items[index], options);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PREVIEW_CONCURRENCY, items.length) }, worker));
+  return { files, summary: summarizeScan(files) };
+}
@@ -1,30 +1,193 @@
+// 修订（track changes）处理策略：接受全部、拒绝全部、保留但匿名化作者与时间
+export type RevisionPolicy = "accept" | "reject" | "anonymize";
+
+// 输出文件已存在时的处理方式：覆盖、跳过、自动编号（name-clean-1.ext）、报错
+export type CollisionPolicy = "overwrite" | "skip" | "rename" | "error";
+
+// 元数据保留配置：keep 为允许保留的元数据键（支持 "exif.*" 前缀通配），
+// remove 中的键始终删除且优先于 keep，未列出的键一律删除
+export interface MetadataProfile {
+  id: string;
+  name: string;
+  keep: string[];
+  remove?: string[];
+}
+
+// 扫描文件夹时对符号链接的处理：跳过、只跟随拖入文件夹中的链接、全部跟随（检测循环）
+export type SymlinkPolicy = "skip" | "follow-once" | "follow";
+
+// 扫描拖入文件夹的过滤规则，只作用于文件夹中的内容，直接拖入的文件不受影响
+export interface ScanOptions {
+  // glob 模式：不含 / 时匹配文件或目录名，含 / 时匹配相对拖入文件夹的路径；
+  // include 非空时只保留匹配的文件，exclude 同时作用于文件与目录
+  include?: string[];
+  exclude?: string[];
+  // 向下进入子目录的最大层数，0 表示只取文件夹下的直接文件，缺省不限
+  maxDepth?: number;
+  // 包含以 . 开头的隐藏文件与目录
+  includeHidden?: boolean;
+  symlinks?: SymlinkPolicy;
+}
+
 export interface ProcessOptions {
   outputDir: string;
   copySuffix?: string;
   overwriteSource?: boolean;
+  // 覆盖源文件前将原文件备份到该目录（每批一个子目录并记录日志，可撤销）；未设置时不备份
+  backupDir?: string;
+  // 在输出目录下按拖入的文件夹重建原有的目录结构，否则所有文件平铺输出
+  preserveStructure?: boolean;
+  // 输出文件已存在（或与本批次中其他文件重名）时的处理方式，默认 rename
+  collisionPolicy?: CollisionPolicy;
+  // 演练模式：只解析输出路径与处理器类型，不写入任何文件
+  dryRun?: boolean;
+  // 跳过处理后的残留元数据校验
+  skipVerify?: boolean;
+  // .docx 中修订的处理方式，默认 anonymize：保留修订，只抹去作者与时间，不改动文档内容
+  revisionPolicy?: RevisionPolicy;
+  // 压缩包内递归清理的最大嵌套层数，默认 2
+  archiveDepth?: number;
+  // 音频文件保留内嵌封面（仅 MP3/FLAC/M4A）
+  keepCoverArt?: boolean;
+  // 本次处理使用的元数据保留配置，缺省时全部删除
+  profile?: MetadataProfile;
+  // 按 EXIF 方向旋转像素后再删除方向标签（需要重新编码图片）
+  applyOrientation?: boolean;
+  // PDF 中保留链接注释与表单控件，其余注释仍删除
+  keepPdfLinks?: boolean;
+  keepPdfForms?: boolean;
+  // 视频保留音视频流的语言标签、保留字幕轨道（附件与数据流始终删除）
+  keepLanguage?: boolean;
+  keepSubtitles?: boolean;
+  // 加密 PDF / Office 文件的密码：password 作用于整批，passwords 按输入路径单独指定且优先。
+  // 密码只用于本次处理，不写入配置
+  password?: string;
+  passwords?: Record<string, string>;
+  // 同时处理的文件数，默认按 CPU 核心数（最多 4）；音视频文件始终一次只处理一个
+  concurrency?: number;
+  // 以下两项在处理文件的线程内设置，不经 IPC 或线程消息传递：取消信号与当前文件的处理进度 (0-1)
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
 }
 
 export interface AppConfig {
   outputDir: string;
   copySuffix: string;
   overwriteSource: boolean;
+  // 覆盖模式的备份目录，留空时使用应用数据目录下的 backups
+  backupDir?: string;
+  preserveStructure?: boolean;
+  collisionPolicy?: CollisionPolicy;
+  revisionPolicy?: RevisionPolicy;
+  archiveDepth?: number;
+  keepCoverArt?: boolean;
+  applyOrientation?: boolean;
+  keepPdfLinks?: boolean;
+  keepPdfForms?: boolean;
+  keepLanguage?: boolean;
+  keepSubtitles?: boolean;
+  concurrency?: number;
+  scan?: ScanOptions;
+  // 用户自定义的保留配置，与内置配置合并展示
+  profiles?: MetadataProfile[];
+  activeProfile?: string;
 }
 
 export interface ProcessItem {
   path: string;
+  // 文件所在的拖入文件夹，保持目录结构时据此计算相对路径；直接拖入的文件没有
+  root?: string;
 }
 
 export interface ProcessResult {
   inputPath: string;
   outputPath?: string;
-  status: "success" | "skipped" | "error";
+  // 覆盖模式下原文件的备份
+  backupPath?: string;
+  status: "success" | "warning" | "skipped" | "error";
   removed?: string[];
+  // 校验阶段在输出文件中发现的残留元数据
+  residual?: string[];
   type?: string;
   message?: string;
+  // 跳过或失败的具体原因，界面据此提供输入密码等操作
+  reason?: "encrypted" | "wrong-password" | "unsupported" | "cancelled" | "output-exists";
+  // 输出路径与已有文件冲突时的实际处理：覆盖了已有文件或改用了编号后的文件名
+  collision?: "overwritten" | "renamed";
+}
+
+// 批处理进度：每个文件开始、处理中（目前仅 ffmpeg）与完成时各推送一次
+export interface ProcessProgress {
+  inputPath: string;
+  // 当前文件在批次中的序号（从 0 开始）与批次文件总数
+  index: number;
+  total: number;
+  // 当前文件与整个批次按输入文件大小计算的已处理字节数
+  fileBytes: number;
+  fileSize: number;
+  batchBytes: number;
+  batchSize: number;
+  // 文件处理完成时附带结果
+  result?: ProcessResult;
+}
+
+// 可撤销的覆盖批次概要
+export interface BackupBatchInfo {
+  id: string;
+  createdAt: string;
+  count: number;
+}
+
+// 撤销覆盖批次的结果：已还原与还原失败的原文件
+export interface UndoResult {
+  batchId: string;
+  restored: string[];
+  failed: Array<{ path: string; message: string }>;
+}
+
+// 扫描预览中的单个文件
+export interface ScannedFile extends ProcessItem {
+  size: number;
+  // 将处理该文件的处理器类型，缺省表示不支持
+  type?: string;
+  // 按文件头识别的 MIME，无法识别（如纯文本、部分 Office 旧格式）时缺省
+  mime?: string;
+  encrypted?: boolean;
+  // 处理时会删除的元数据项；无法预先判断（压缩包、已加密、读取失败）时缺省
+  removable?: string[];
+}
+
+export interface ScanSummary {
+  total: number;
+  totalBytes: number;
+  // 按处理器类型统计的文件数
+  byType: Record<string, number>;
+  unsupported: number;
+  encrypted: number;
+  withMetadata: number;
 }
 
 export interface ScanResult {
-  files: string[];
+  files: ScannedFile[];
+  summary: ScanSummary;
+}
+
+// 元数据项的敏感类别：位置、身份、设备、时间，不属于这些的为 other
+export type MetadataSensitivity = "location" | "identity" | "device" | "time" | "other";
+
+export interface MetadataEntry {
+  // 所属的元数据块，如 EXIF、XMP、IPTC、OOXML core、PDF Info、ID3
+  namespace: string;
+  key: string;
+  value: string;
+  // 未指定时按键名推断
+  sensitivity?: MetadataSensitivity;
+  // 对应的保留配置键，配置允许保留时处理后仍存在
+  profileKey?: string;
+  // 文件结构或内容信息（分辨率、时长、书名等），处理时不会删除
+  structural?: boolean;
+  // 按当前保留配置处理时是否会删除；处理器总是保留的项由读取函数预先填为 false，其余按配置推断
+  willRemove?: boolean;
 }
 
 export interface FileDetailedInfo {
@@ -33,32 +196,71 @@ export interface FileDetailedInfo {
   size: number;
   mtime: number;
   exists: boolean;
-  category: "image" | "office" | "pdf" | "zip" | "video" | "other";
+  // 处理器声明的分类（内置为 image、raw、office、odf、pdf、zip、archive、epub、video、audio），
+  // 插件可使用自己的分类；无法识别时为 other
+  category: string;
   metadata?: {
     // 通用
     mime?: string;
+    // 文件损坏或无法解析，元数据清单不完整，不能据此判断元数据已清除
+    readFailed?: boolean;
+    // 规范化的元数据清单，界面据此逐项展示；以下各字段为校验使用的摘要
+    entries?: MetadataEntry[];
+    // PDF / OOXML 已加密
+    encrypted?: boolean;
     // 图片
     width?: number;
     height?: number;
     format?: string;
     hasExif?: boolean;
-    exifData?: Record<string, any>;
+    hasXmp?: boolean;
+    hasIptc?: boolean;
     // Office / PDF / Video
     title?: string;
     author?: string;
     creator?: string;
     lastModifiedBy?: string;
     creationDate?: string;
+    subject?: string;
+    keywords?: string;
+    producer?: string;
+    // 旧版 Office (OLE2) 摘要信息
+    company?: string;
+    revisionCount?: number;
+    // OpenDocument
+    generator?: string;
+    initialCreator?: string;
+    editingCycles?: number;
+    editingDuration?: string;
     // ZIP
     fileCount?: number;
     comment?: string;
     // PDF 特定
     pageCount?: number;
+    // 附件、脚本、表单等仍存在的内容类别
+    activeContent?: string[];
     // 视频特定
     duration?: number;
     bitrate?: number;
     videoCodec?: string;
     audioCodec?: string;
     encoder?: string;
+    formatTags?: Record<string, string>;
+    // 音频特定
+    artist?: string;
+    album?: string;
+    hasCover?: boolean;
   };
 }
+
+export type FileMetadata = NonNullable<FileDetailedInfo["metadata"]>;
+
+// 已注册处理器的概要，供界面显示类型名称
+export interface ProcessorInfo {
+  type: string;
+  label: string;
+  category: string;
+  exts: string[];
+  // 由插件目录加载，而非内置
+  plugin: boolean;
+}
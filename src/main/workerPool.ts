@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { processItem } from './batchProcessor';
+import { loadedPluginDirs } from './processorRegistry';
+import { ResolvedPath } from './outputStrategy';
+import { ProcessItem, ProcessOptions, ProcessResult } from './types';
+
+// 工作线程只接收可序列化的选项，取消信号与进度回调由消息转发
+export type TransferableOptions = Omit<ProcessOptions, 'signal' | 'onProgress'>;
+
+export type WorkerRequest =
+  | { type: 'run'; id: number; item: ProcessItem; resolved?: ResolvedPath; options: TransferableOptions }
+  | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; fraction: number }
+  | { type: 'done'; id: number; result: ProcessResult };
+
+interface Job {
+  id: number;
+  item: ProcessItem;
+  resolved?: ResolvedPath;
+  options: TransferableOptions;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+  onAbort?: () => void;
+  resolve: (result: ProcessResult) => void;
+}
+
+const WORKER_SCRIPT = path.join(__dirname, 'processWorker.js');
+
+/**
+ * 固定大小的工作线程池，每个线程同时只处理一个文件。
+ * 未编译出工作线程脚本时（如直接以 ts-node 运行）退回到当前线程内处理
+ */
+export class WorkerPool {
+  private readonly idle: Worker[] = [];
+  private readonly busy = new Map<Worker, Job>();
+  private readonly queue: Job[] = [];
+  private readonly inline = !fs.existsSync(WORKER_SCRIPT);
+  private spawned = 0;
+  private nextId = 0;
+
+  constructor(private readonly size: number) {}
+
+  run(
+    item: ProcessItem,
+    resolved: ResolvedPath | undefined,
+    options: TransferableOptions,
+    signal?: AbortSignal,
+    onProgress?: (fraction: number) => void
+  ): Promise<ProcessResult> {
+    if (this.inline) return processItem(item, { ...options, signal, onProgress }, resolved);
+    return new Promise((resolve) => {
+      this.queue.push({ id: this.nextId++, item, resolved, options, signal, onProgress, resolve });
+      this.dispatch();
+    });
+  }
+
+  async close() {
+    const workers = [...this.idle, ...this.busy.keys()];
+    this.idle.length = 0;
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.spawned < this.size ? this.spawn() : undefined);
+      if (!worker) return;
+      const job = this.queue.shift()!;
+      this.busy.set(worker, job);
+      job.onAbort = () => worker.postMessage({ type: 'cancel', id: job.id } satisfies WorkerRequest);
+      job.signal?.addEventListener('abort', job.onAbort, { once: true });
+      worker.postMessage({
+        type: 'run',
+        id: job.id,
+        item: job.item,
+        resolved: job.resolved,
+        options: job.options,
+      } satisfies WorkerRequest);
+    }
+  }
+
+  private finish(worker: Worker, result: ProcessResult) {
+    const job = this.busy.get(worker);
+    if (!job) return;
+    this.busy.delete(worker);
+    if (job.onAbort) job.signal?.removeEventListener('abort', job.onAbort);
+    job.resolve(result);
+  }
+
+  private spawn() {
+    // 插件只在当前线程中注册过，新线程按同样的目录重新加载
+    const worker = new Worker(WORKER_SCRIPT, { workerData: { pluginDirs: loadedPluginDirs() } });
+    this.spawned++;
+    let lastError: Error | undefined;
+
+    worker.on('message', (message: WorkerResponse) => {
+      const job = this.busy.get(worker);
+      if (!job || message.id !== job.id) return;
+      if (message.type === 'progress') {
+        job.onProgress?.(message.fraction);
+        return;
+      }
+      this.finish(worker, message.result);
+      this.idle.push(worker);
+      this.dispatch();
+    });
+    worker.on('error', (err) => {
+      lastError = err instanceof Error ? err : new Error(String(err));
+    });
+    // 线程异常退出时当前文件记为失败，后续文件由新线程接手
+    worker.on('exit', () => {
+      this.spawned--;
+      const job = this.busy.get(worker);
+      if (job) {
+        this.finish(worker, {
+          inputPath: job.item.path,
+          status: 'error',
+          message: `工作线程异常退出${lastError ? `：${lastError.message}` : ''}`,
+        });
+      }
+      const idleIndex = this.idle.indexOf(worker);
+      if (idleIndex >= 0) this.idle.splice(idleIndex, 1);
+      this.dispatch();
+    });
+    return worker;
+  }
+}
@@ -1,5 +1,5 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import type { ProcessResult, AppConfig, FileDetailedInfo } from '../main/types';
+import type { ProcessResult, ProcessProgress, AppConfig, FileDetailedInfo, MetadataEntry, MetadataProfile, RevisionPolicy, CollisionPolicy, BackupBatchInfo, ScanOptions, SymlinkPolicy, ScannedFile } from '../main/types';
 
 type ElectronAPI = typeof window.electronAPI;
 
@@ -24,64 +24,94 @@ const formatDate = (ms: number) => {
   return new Date(ms).toLocaleString();
 };
 
+const statusIcon = (status?: ProcessResult['status']) => {
+  if (status === 'success') return '✅';
+  if (status === 'warning') return '⚠️';
+  if (status === 'error') return '❌';
+  if (status === 'skipped') return '⏭️';
+  return '⏳';
+};
+
+// 扫描预览的简要说明：类型、大小与是否含可删除的元数据
+const describeScanned = (file: ScannedFile | undefined, typeLabels: Record<string, string>) => {
+  if (!file) return '';
+  const parts = [file.type ? typeLabels[file.type] ?? file.type : '不支持', formatSize(file.size)];
+  if (file.encrypted) parts.push('已加密');
+  else if (file.removable) parts.push(file.removable.length > 0 ? `${file.removable.length} 项元数据` : '无元数据');
+  return parts.join(' · ');
+};
+
+const BANNER_STYLES: Record<string, { background: string; border: string; title: string; text: string; label: string }> = {
+  success: { background: '#f0fdf4', border: '#bbf7d0', title: '#166534', text: '#166534', label: '处理成功' },
+  warning: { background: '#fffbeb', border: '#fde68a', title: '#92400e', text: '#b45309', label: '处理完成，但校验发现残留' },
+  error: { background: '#fef2f2', border: '#fee2e2', title: '#991b1b', text: '#b91c1c', label: '处理失败' },
+  skipped: { background: '#f8fafc', border: '#e2e8f0', title: '#475569', text: '#64748b', label: '已跳过' },
+};
+
+const SENSITIVITY_LABELS: Record<string, string> = {
+  location: '位置',
+  identity: '身份',
+  device: '设备',
+  time: '时间',
+};
+
+// 按元数据清单逐项展示，同一命名空间（EXIF、XMP、OOXML core 等）的条目归为一组
 const MetadataView: React.FC<{ info: FileDetailedInfo }> = ({ info }) => {
-  const { metadata, category } = info;
+  const { metadata } = info;
   if (!metadata) return <p>暂无元数据信息</p>;
 
-  const items = [];
-  
-  // 通用信息
-  items.push({ label: '文件大小', value: formatSize(info.size) });
-  items.push({ label: '修改时间', value: formatDate(info.mtime) });
-
-  // 分类型展示核心信息
-  if (category === 'image') {
-    if (metadata.width) items.push({ label: '分辨率', value: `${metadata.width} x ${metadata.height}` });
-    if (metadata.format) items.push({ label: '编码格式', value: metadata.format.toUpperCase() });
-    items.push({ label: '包含 EXIF', value: metadata.hasExif ? '是' : '否' });
-  } else if (category === 'office' || category === 'pdf') {
-    if (metadata.title) items.push({ label: '标题', value: metadata.title });
-    if (metadata.author) items.push({ label: '作者', value: metadata.author });
-    if (metadata.creator) items.push({ label: '创建程序', value: metadata.creator });
-    if (metadata.lastModifiedBy) items.push({ label: '最后修改人', value: metadata.lastModifiedBy });
-    if (metadata.creationDate) items.push({ label: '创建日期', value: metadata.creationDate });
-    if (metadata.pageCount) items.push({ label: '总页数', value: metadata.pageCount });
-  } else if (category === 'zip') {
-    if (metadata.fileCount) items.push({ label: '包含文件数', value: metadata.fileCount });
-  } else if (category === 'video') {
-    if (metadata.duration) items.push({ label: '时长', value: `${Math.floor(metadata.duration)}s` });
-    if (metadata.videoCodec) items.push({ label: '视频编码', value: metadata.videoCodec });
-    if (metadata.audioCodec) items.push({ label: '音频编码', value: metadata.audioCodec });
-    if (metadata.width) items.push({ label: '分辨率', value: `${metadata.width} x ${metadata.height}` });
-    if (metadata.encoder) items.push({ label: '编码软件', value: metadata.encoder });
-    if (metadata.title) items.push({ label: '标题', value: metadata.title });
-    if (metadata.author) items.push({ label: '艺术家', value: metadata.author });
-    if (metadata.creationDate) items.push({ label: '创建时间', value: metadata.creationDate });
+  const groups = new Map<string, MetadataEntry[]>();
+  for (const entry of metadata.entries ?? []) {
+    groups.set(entry.namespace, [...(groups.get(entry.namespace) ?? []), entry]);
   }
+  const removable = (metadata.entries ?? []).filter((e) => e.willRemove).length;
 
   return (
     <div className="metadata-container">
-      {items.map((item, idx) => (
-        <div className="info-item" key={idx}>
-          <span className="info-label">{item.label}</span>
-          <span className="info-value">{item.value}</span>
-        </div>
-      ))}
-      
-      {/* 详细 EXIF 信息展示 */}
-      {category === 'image' && metadata.exifData && Object.keys(metadata.exifData).length > 0 && (
-        <div className="exif-details" style={{ marginTop: '16px', paddingTop: '16px', borderTop: '1px solid #cbd5e1' }}>
-          <h5 style={{ margin: '0 0 8px 0', color: '#475569' }}>详细 EXIF 数据</h5>
-          <div className="exif-grid" style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px', fontSize: '11px' }}>
-            {Object.entries(metadata.exifData).map(([key, value]) => (
-              <div key={key} style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0' }}>
-                <span style={{ color: '#64748b' }}>{key}</span>
-                <span style={{ color: '#1e293b', fontWeight: 500 }}>{String(value)}</span>
-              </div>
-            ))}
-          </div>
+      <div className="info-item">
+        <span className="info-label">文件大小</span>
+        <span className="info-value">{formatSize(info.size)}</span>
+      </div>
+      <div className="info-item">
+        <span className="info-label">修改时间</span>
+        <span className="info-value">{formatDate(info.mtime)}</span>
+      </div>
+      {metadata.mime && (
+        <div className="info-item">
+          <span className="info-label">MIME</span>
+          <span className="info-value">{metadata.mime}</span>
         </div>
       )}
+      <div className="info-item">
+        <span className="info-label">将删除的元数据</span>
+        <span className="info-value">{removable > 0 ? `${removable} 项` : '无'}</span>
+      </div>
+
+      {Array.from(groups, ([namespace, entries]) => (
+        <div className="metadata-group" key={namespace}>
+          <h5>{namespace}</h5>
+          {entries.map((entry, idx) => (
+            <div className="info-item" key={idx}>
+              <span className="info-label">
+                {entry.key}
+                {entry.sensitivity && SENSITIVITY_LABELS[entry.sensitivity] && (
+                  <span className={`sensitivity-tag sensitivity-${entry.sensitivity}`}>
+                    {SENSITIVITY_LABELS[entry.sensitivity]}
+                  </span>
+                )}
+              </span>
+              <span className="info-value">
+                {entry.value}
+                {!entry.structural && (
+                  <span className={entry.willRemove ? 'entry-status will-remove' : 'entry-status kept'}>
+                    {entry.willRemove ? '将删除' : '保留'}
+                  </span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      ))}
     </div>
   );
 };
@@ -89,11 +119,24 @@ const MetadataView: React.FC<{ info: FileDetailedInfo }> = ({ info }) => {
 const App: React.FC = () => {
   const api = resolveApi();
   const [files, setFiles] = useState<string[]>([]);
+  // 扫描预览：类型、大小、可删除的元数据与所在的拖入文件夹（保持目录结构时随文件传给主进程）
+  const [scanned, setScanned] = useState<Record<string, ScannedFile>>({});
+  // 用户取消勾选、不参与处理的文件
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
   const [config, setConfig] = useState<AppConfig>({ outputDir: '', copySuffix: '', overwriteSource: false });
   const [showSettings, setShowSettings] = useState(false);
   const [processing, setProcessing] = useState(false);
+  const [progress, setProgress] = useState<ProcessProgress | null>(null);
+  const [profiles, setProfiles] = useState<MetadataProfile[]>([]);
+  // 处理器类型 -> 显示名称，包含插件提供的处理器
+  const [typeLabels, setTypeLabels] = useState<Record<string, string>>({});
   const [results, setResults] = useState<Record<string, ProcessResult>>({});
   const [logs, setLogs] = useState<string[]>([]);
+  // 加密文件密码只保存在内存中，不写入配置
+  const [batchPassword, setBatchPassword] = useState('');
+  const [filePasswords, setFilePasswords] = useState<Record<string, string>>({});
+  // 最近一个可撤销的覆盖批次
+  const [lastBatch, setLastBatch] = useState<BackupBatchInfo | null>(null);
   
   const [selectedFilePath, setSelectedFilePath] = useState<string | null>(null);
   const [originalInfo, setOriginalInfo] = useState<FileDetailedInfo | null>(null);
@@ -110,9 +153,29 @@ const App: React.FC = () => {
           outputDir: loadedConfig.outputDir || '',
           copySuffix: loadedConfig.copySuffix || '',
           overwriteSource: loadedConfig.overwriteSource || false,
+          backupDir: loadedConfig.backupDir || '',
+          preserveStructure: loadedConfig.preserveStructure || false,
+          collisionPolicy: loadedConfig.collisionPolicy || 'rename',
+          revisionPolicy: loadedConfig.revisionPolicy || 'anonymize',
+          archiveDepth: loadedConfig.archiveDepth ?? 2,
+          keepCoverArt: loadedConfig.keepCoverArt || false,
+          applyOrientation: loadedConfig.applyOrientation || false,
+          keepPdfLinks: loadedConfig.keepPdfLinks || false,
+          keepPdfForms: loadedConfig.keepPdfForms || false,
+          keepLanguage: loadedConfig.keepLanguage || false,
+          keepSubtitles: loadedConfig.keepSubtitles || false,
+          concurrency: loadedConfig.concurrency,
+          scan: loadedConfig.scan,
+          profiles: loadedConfig.profiles,
+          activeProfile: loadedConfig.activeProfile || 'strict',
         });
         if (!loadedConfig.outputDir && !loadedConfig.overwriteSource) setShowSettings(true);
       });
+      api.getProfiles().then(setProfiles);
+      api.getProcessors().then((processors) =>
+        setTypeLabels(Object.fromEntries(processors.map((p) => [p.type, p.label])))
+      );
+      api.getLastBatch().then(setLastBatch);
     }
   }, [api]);
 
@@ -142,15 +205,30 @@ const App: React.FC = () => {
     async (paths: string[], source: string) => {
       if (!api) return;
       const filtered = paths.filter(Boolean);
-      const scanned = await api.scanPaths(filtered);
-      const validFiles = scanned.files.filter(Boolean);
+      const scan = await api.scanPaths(
+        filtered,
+        config.scan,
+        profiles.find((p) => p.id === config.activeProfile),
+      );
+      const validFiles = scan.files.map((f) => f.path).filter(Boolean);
       if (validFiles.length > 0) {
         setFiles((prev) => uniqueMerge(prev, validFiles));
-        log(`${source}: 新增 ${validFiles.length} 个文件`);
+        setScanned((prev) => {
+          const next = { ...prev };
+          scan.files.forEach((f) => { next[f.path] ??= f; });
+          return next;
+        });
+        // 不支持的文件默认不勾选，需要时可手动勾选
+        const unsupported = scan.files.filter((f) => !f.type).map((f) => f.path);
+        if (unsupported.length > 0) setDeselected((prev) => new Set([...prev, ...unsupported]));
+        const { summary } = scan;
+        log(`${source}: 新增 ${validFiles.length} 个文件（${formatSize(summary.totalBytes)}），`
+          + `含元数据 ${summary.withMetadata} 个，不支持 ${summary.unsupported} 个`
+          + (summary.encrypted ? `，已加密 ${summary.encrypted} 个` : ''));
         if (!selectedFilePath) setSelectedFilePath(validFiles[0]);
       }
     },
-    [log, api, selectedFilePath],
+    [log, api, selectedFilePath, config.scan, config.activeProfile, profiles],
   );
 
   useEffect(() => {
@@ -159,19 +237,21 @@ const App: React.FC = () => {
       setProcessedInfo(null);
       return;
     }
+    // 按当前保留配置标记元数据清单中会被删除的项
+    const profile = profiles.find((p) => p.id === config.activeProfile);
     const fetchInfos = async () => {
-      const orig = await api.getFileInfo(selectedFilePath);
+      const orig = await api.getFileInfo(selectedFilePath, profile);
       setOriginalInfo(orig);
       const result = results[selectedFilePath];
-      if (result && result.status === 'success' && result.outputPath) {
-        const proc = await api.getFileInfo(result.outputPath);
+      if (result && (result.status === 'success' || result.status === 'warning') && result.outputPath) {
+        const proc = await api.getFileInfo(result.outputPath, profile);
         setProcessedInfo(proc);
       } else {
         setProcessedInfo(null);
       }
     };
     fetchInfos();
-  }, [api, selectedFilePath, results]);
+  }, [api, selectedFilePath, results, config.activeProfile, profiles]);
 
   // 全局拖拽处理：仅阻止默认行为，让 preload.ts 的 window 监听器工作
   useEffect(() => {
@@ -211,6 +291,20 @@ const App: React.FC = () => {
     };
   }, [api, addPaths]);
 
+  // 批处理进度：文件完成时立即更新该文件的结果，无需等待整批结束
+  useEffect(() => {
+    if (!api) return;
+    return api.onProcessProgress((next) => {
+      setProgress(next);
+      const { result } = next;
+      if (result) setResults((prev) => ({ ...prev, [result.inputPath]: result }));
+    });
+  }, [api]);
+
+  const handleCancel = useCallback(async () => {
+    if (api && (await api.cancelProcessing())) log('已请求取消，正在停止当前文件');
+  }, [api, log]);
+
   const handleChooseFiles = useCallback(async () => {
     if (api) {
       const paths = await api.selectFiles();
@@ -233,32 +327,124 @@ const App: React.FC = () => {
     }
   }, [api]);
 
-  const handleProcess = useCallback(async () => {
-    if (!files.length || (!config.overwriteSource && !config.outputDir) || !api) return;
+  const setScan = (patch: Partial<ScanOptions>) => setConfig((prev) => ({ ...prev, scan: { ...prev.scan, ...patch } }));
+
+  const selectBackupDir = useCallback(async () => {
+    if (api) {
+      const path = await api.selectDirectory();
+      if (path) {
+        setConfig((prev) => ({ ...prev, backupDir: path }));
+      }
+    }
+  }, [api]);
+
+  const processPaths = useCallback(async (targets: string[]) => {
+    if (!targets.length || (!config.overwriteSource && !config.outputDir) || !api) return;
     setProcessing(true);
     try {
       const processResults = (await api.processFiles(
-        files.map((path) => ({ path })),
+        targets.map((path) => ({ path, root: scanned[path]?.root })),
         { 
           outputDir: config.outputDir, 
           copySuffix: config.copySuffix,
-          overwriteSource: config.overwriteSource 
+          overwriteSource: config.overwriteSource,
+          backupDir: config.backupDir || undefined,
+          preserveStructure: config.preserveStructure,
+          collisionPolicy: config.collisionPolicy,
+          revisionPolicy: config.revisionPolicy,
+          archiveDepth: config.archiveDepth,
+          keepCoverArt: config.keepCoverArt,
+          applyOrientation: config.applyOrientation,
+          keepPdfLinks: config.keepPdfLinks,
+          keepPdfForms: config.keepPdfForms,
+          keepLanguage: config.keepLanguage,
+          keepSubtitles: config.keepSubtitles,
+          concurrency: config.concurrency,
+          profile: profiles.find((p) => p.id === config.activeProfile),
+          password: batchPassword || undefined,
+          passwords: filePasswords,
         },
       )) as ProcessResult[];
       const map: Record<string, ProcessResult> = {};
       processResults.forEach((r) => { map[r.inputPath] = r; });
       setResults(prev => ({ ...prev, ...map }));
-      log(`处理完成 ${processResults.length} 个文件`);
+      const cancelled = processResults.filter((r) => r.reason === 'cancelled').length;
+      log(cancelled > 0
+        ? `已取消，完成 ${processResults.length - cancelled} 个文件，${cancelled} 个未处理`
+        : `处理完成 ${processResults.length} 个文件`);
     } catch (err) {
       log(`处理失败: ${err instanceof Error ? err.message : '未知错误'}`);
     } finally {
       setProcessing(false);
+      setProgress(null);
+      if (config.overwriteSource) setLastBatch(await api.getLastBatch());
+    }
+  }, [config, scanned, profiles, batchPassword, filePasswords, log, api]);
+
+  const checkedFiles = useMemo(() => files.filter((f) => !deselected.has(f)), [files, deselected]);
+
+  // 已勾选文件的汇总：总大小、按类型计数、不支持与含元数据的文件数
+  const checkedSummary = useMemo(() => {
+    const byType: Record<string, number> = {};
+    let bytes = 0;
+    let unsupported = 0;
+    let withMetadata = 0;
+    for (const f of checkedFiles) {
+      const info = scanned[f];
+      if (!info) continue;
+      bytes += info.size;
+      if (!info.type) unsupported++;
+      else byType[info.type] = (byType[info.type] ?? 0) + 1;
+      if (info.removable?.length) withMetadata++;
     }
-  }, [files, config, log, api]);
+    return { bytes, byType, unsupported, withMetadata };
+  }, [checkedFiles, scanned]);
+
+  const toggleChecked = (path: string) =>
+    setDeselected((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  // 取消勾选确定无需处理的文件：不支持的类型与检查后没有可删除元数据的文件
+  const deselectClean = () =>
+    setDeselected((prev) => new Set([
+      ...prev,
+      ...files.filter((f) => !scanned[f]?.type || scanned[f]?.removable?.length === 0),
+    ]));
+
+  const handleProcess = useCallback(() => processPaths(checkedFiles), [processPaths, checkedFiles]);
+
+  const handleUndo = useCallback(async () => {
+    if (!api || !lastBatch) return;
+    const time = new Date(lastBatch.createdAt).toLocaleString();
+    if (!window.confirm(`确定要撤销 ${time} 的覆盖处理吗？\n将用备份还原 ${lastBatch.count} 个原文件`)) return;
+    try {
+      const undo = await api.undoLastBatch();
+      if (undo) {
+        // 已还原的文件回到未处理状态
+        setResults((prev) => {
+          const next = { ...prev };
+          undo.restored.forEach((p) => delete next[p]);
+          return next;
+        });
+        log(`已撤销：还原 ${undo.restored.length} 个文件${undo.failed.length ? `，${undo.failed.length} 个还原失败` : ''}`);
+        undo.failed.forEach((f) => log(`还原失败 ${f.path}: ${f.message}`));
+      }
+    } catch (err) {
+      log(`撤销失败: ${err instanceof Error ? err.message : '未知错误'}`);
+    }
+    setLastBatch(await api.getLastBatch());
+  }, [api, lastBatch, log]);
 
   const clear = () => {
     setFiles([]);
+    setScanned({});
+    setDeselected(new Set());
     setResults({});
+    setFilePasswords({});
     setLogs([]);
     setSelectedFilePath(null);
   };
@@ -281,29 +467,98 @@ const App: React.FC = () => {
         </div>
         <div className="files" style={{ flex: 1, marginTop: 0 }}>
           <div style={{ paddingBottom: '8px', borderBottom: '1px solid #e2e8f0', marginBottom: '8px', fontSize: '14px' }}>
-            待处理清单 ({files.length})
+            待处理清单 ({checkedFiles.length}/{files.length})
+            {files.length > 0 && (
+              <div className="scan-summary">
+                <span>
+                  {formatSize(checkedSummary.bytes)}
+                  {Object.entries(checkedSummary.byType).map(([type, count]) => ` · ${typeLabels[type] ?? type} ${count}`)}
+                  {checkedSummary.unsupported > 0 && ` · 不支持 ${checkedSummary.unsupported}`}
+                  {` · 含元数据 ${checkedSummary.withMetadata}`}
+                </span>
+                <button className="link-btn" disabled={processing} onClick={deselectClean}>只勾选需处理的</button>
+              </div>
+            )}
           </div>
           {files.map((f) => (
             <div 
               key={f} 
-              className={`file-row ${selectedFilePath === f ? 'selected' : ''}`}
+              className={`file-row ${selectedFilePath === f ? 'selected' : ''} ${deselected.has(f) ? 'deselected' : ''}`}
               onClick={() => setSelectedFilePath(f)}
+              title={scanned[f]?.removable?.length ? `将删除：${scanned[f].removable!.join('、')}` : undefined}
             >
-              <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontSize: '13px' }}>
-                {f.split(/[\\/]/).pop()}
+              <input
+                type="checkbox"
+                checked={!deselected.has(f)}
+                disabled={processing}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => toggleChecked(f)}
+              />
+              <span style={{ flex: 1, minWidth: 0, fontSize: '13px' }}>
+                <span style={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {f.split(/[\\/]/).pop()}
+                </span>
+                <span className="file-meta">{describeScanned(scanned[f], typeLabels)}</span>
               </span>
               <span className={`status ${results[f]?.status || ''}`}>
-                {results[f]?.status === 'success' ? '✅' : results[f]?.status === 'error' ? '❌' : '⏳'}
+                {statusIcon(results[f]?.status)}
               </span>
             </div>
           ))}
         </div>
+        <div className="control" style={{ marginTop: '16px' }}>
+          <label>保留配置</label>
+          <select
+            style={{ padding: '8px' }}
+            value={config.activeProfile || 'strict'}
+            disabled={processing}
+            onChange={(e) => setConfig({ ...config, activeProfile: e.target.value })}
+          >
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control" style={{ marginTop: '12px' }}>
+          <label>加密文件密码（整批）</label>
+          <input
+            type="password"
+            style={{ padding: '8px' }}
+            value={batchPassword}
+            disabled={processing}
+            placeholder="用于加密的 PDF / Office 文件，可留空"
+            onChange={(e) => setBatchPassword(e.target.value)}
+          />
+        </div>
+        {processing && progress && (
+          <div className="progress">
+            <div className="progress-label">
+              {progress.index + 1}/{progress.total} {progress.inputPath.split(/[\\/]/).pop()}
+              {progress.fileSize > 0 && ` · ${Math.floor((progress.fileBytes / progress.fileSize) * 100)}%`}
+            </div>
+            <div className="progress-track">
+              <div
+                className="progress-bar"
+                style={{ width: `${progress.batchSize > 0 ? (progress.batchBytes / progress.batchSize) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
         <div className="actions" style={{ marginTop: '16px' }}>
           <button onClick={handleProcess} disabled={processing || !files.length} style={{ flex: 1 }}>
             {processing ? '处理中...' : '开始执行'}
           </button>
-          <button className="secondary" onClick={clear} disabled={processing}>清空</button>
+          {processing ? (
+            <button className="secondary" onClick={handleCancel}>取消</button>
+          ) : (
+            <button className="secondary" onClick={clear}>清空</button>
+          )}
         </div>
+        {lastBatch && !processing && (
+          <button className="secondary" onClick={handleUndo} style={{ marginTop: '8px', width: '100%' }}>
+            ↩️ 撤销上次覆盖（{lastBatch.count} 个文件）
+          </button>
+        )}
       </div>
 
       {/* 右侧面板 */}
@@ -317,33 +572,59 @@ const App: React.FC = () => {
               <p style={{ margin: '4px 0 0 0', fontSize: '12px', color: '#64748b' }}>{selectedFilePath}</p>
             </div>
             <div className="viewer-content">
-              {results[selectedFilePath] && (
-                <div style={{ 
-                  marginBottom: '16px', 
-                  padding: '12px 16px', 
-                  borderRadius: '8px', 
-                  display: 'flex', 
-                  alignItems: 'center', 
-                  justifyContent: 'space-between',
-                  backgroundColor: results[selectedFilePath].status === 'success' ? '#f0fdf4' : '#fef2f2',
-                  border: `1px solid ${results[selectedFilePath].status === 'success' ? '#bbf7d0' : '#fee2e2'}`
-                }}>
-                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-                    <span style={{ fontSize: '20px' }}>{results[selectedFilePath].status === 'success' ? '✅' : '❌'}</span>
-                    <div>
-                      <div style={{ fontWeight: 'bold', color: results[selectedFilePath].status === 'success' ? '#166534' : '#991b1b' }}>
-                        {results[selectedFilePath].status === 'success' ? '处理成功' : '处理失败'}
+              {results[selectedFilePath] && BANNER_STYLES[results[selectedFilePath].status] && (() => {
+                const result = results[selectedFilePath];
+                const banner = BANNER_STYLES[result.status];
+                return (
+                  <div style={{ 
+                    marginBottom: '16px', 
+                    padding: '12px 16px', 
+                    borderRadius: '8px', 
+                    display: 'flex', 
+                    alignItems: 'center', 
+                    justifyContent: 'space-between',
+                    backgroundColor: banner.background,
+                    border: `1px solid ${banner.border}`
+                  }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                      <span style={{ fontSize: '20px' }}>{statusIcon(result.status)}</span>
+                      <div>
+                        <div style={{ fontWeight: 'bold', color: banner.title }}>{banner.label}</div>
+                        {result.status !== 'success' && (
+                          <div style={{ fontSize: '12px', color: banner.text, marginTop: '2px' }}>
+                            {result.message}
+                          </div>
+                        )}
                       </div>
-                      {results[selectedFilePath].status === 'error' && (
-                        <div style={{ fontSize: '12px', color: '#b91c1c', marginTop: '2px' }}>
-                          {results[selectedFilePath].message}
-                        </div>
-                      )}
                     </div>
+                    {result.collision && (
+                      <span style={{ fontSize: '12px', color: '#92400e', backgroundColor: '#fef3c7', padding: '2px 8px', borderRadius: '4px' }}>
+                        {result.collision === 'renamed' ? `已存在同名文件，另存为 ${result.outputPath?.split(/[\\/]/).pop()}` : '已覆盖同名输出文件'}
+                      </span>
+                    )}
+                    {result.status !== 'error' && config.overwriteSource && (
+                      <span style={{ fontSize: '12px', color: '#166534', backgroundColor: '#dcfce7', padding: '2px 8px', borderRadius: '4px' }}>已覆盖原文件</span>
+                    )}
+                  </div>
+                );
+              })()}
+              {(results[selectedFilePath]?.reason === 'encrypted' || results[selectedFilePath]?.reason === 'wrong-password') && (
+                <div className="control" style={{ marginBottom: '16px' }}>
+                  <label>输入该文件的密码，解密清理后将按原密码重新加密</label>
+                  <div style={{ display: 'flex', gap: 6 }}>
+                    <input
+                      type="password"
+                      style={{ flex: 1, padding: '8px' }}
+                      value={filePasswords[selectedFilePath] ?? ''}
+                      onChange={(e) => setFilePasswords((prev) => ({ ...prev, [selectedFilePath]: e.target.value }))}
+                    />
+                    <button
+                      disabled={processing || !filePasswords[selectedFilePath]}
+                      onClick={() => processPaths([selectedFilePath])}
+                    >
+                      解密并处理
+                    </button>
                   </div>
-                  {results[selectedFilePath].status === 'success' && config.overwriteSource && (
-                    <span style={{ fontSize: '12px', color: '#166534', backgroundColor: '#dcfce7', padding: '2px 8px', borderRadius: '4px' }}>已覆盖原文件</span>
-                  )}
                 </div>
               )}
               <div className="info-grid">
@@ -353,7 +634,7 @@ const App: React.FC = () => {
                 </div>
                 <div className="info-card">
                   <h4>处理后结果对比</h4>
-                  {results[selectedFilePath]?.status === 'success' ? (
+                  {results[selectedFilePath]?.status === 'success' || results[selectedFilePath]?.status === 'warning' ? (
                     processedInfo ? (
                       <>
                         <MetadataView info={processedInfo} />
@@ -383,7 +664,7 @@ const App: React.FC = () => {
                 </div>
               </div>
 
-              {results[selectedFilePath]?.status === 'success' && results[selectedFilePath]?.removed && (
+              {(results[selectedFilePath]?.status === 'success' || results[selectedFilePath]?.status === 'warning') && results[selectedFilePath]?.removed && (
                 <div className="removed-list">
                   <h4 style={{ color: '#475569', marginBottom: '12px' }}>清理报告</h4>
                   <div style={{ display: 'flex', flexWrap: 'wrap' }}>
@@ -393,6 +674,17 @@ const App: React.FC = () => {
                   </div>
                 </div>
               )}
+
+              {results[selectedFilePath]?.residual && results[selectedFilePath].residual!.length > 0 && (
+                <div className="removed-list">
+                  <h4 style={{ color: '#92400e', marginBottom: '12px' }}>校验残留</h4>
+                  <div style={{ display: 'flex', flexWrap: 'wrap' }}>
+                    {results[selectedFilePath].residual!.map((item, idx) => (
+                      <span key={idx} className="removed-tag residual-tag">{item}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </>
         ) : (
@@ -421,9 +713,22 @@ const App: React.FC = () => {
                   onChange={(e) => setConfig({ ...config, overwriteSource: e.target.checked })}
                   style={{ width: '16px', height: '16px' }}
                 />
-                <label htmlFor="overwriteSource" style={{ marginBottom: 0, cursor: 'pointer' }}>直接覆盖源文件 (危险操作，建议先备份)</label>
+                <label htmlFor="overwriteSource" style={{ marginBottom: 0, cursor: 'pointer' }}>直接覆盖源文件 (原文件会先备份，可撤销)</label>
               </div>
 
+              {config.overwriteSource && (
+                <div className="control">
+                  <label>备份目录</label>
+                  <div style={{ display: 'flex', gap: 6 }}>
+                    <input style={{ flex: 1, padding: '8px' }} value={config.backupDir || ''} readOnly placeholder="默认：应用数据目录下的 backups" />
+                    <button className="secondary" onClick={selectBackupDir}>选择</button>
+                    {config.backupDir && (
+                      <button className="secondary" onClick={() => setConfig({ ...config, backupDir: '' })}>默认</button>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {!config.overwriteSource && (
                 <div className="control">
                   <label>输出目录 (必填)</label>
@@ -438,10 +743,181 @@ const App: React.FC = () => {
                   )}
                 </div>
               )}
+              {!config.overwriteSource && (
+                <>
+                  <div className="control" style={{ flexDirection: 'row', alignItems: 'center', gap: '8px' }}>
+                    <input
+                      type="checkbox"
+                      id="preserveStructure"
+                      checked={!!config.preserveStructure}
+                      onChange={(e) => setConfig({ ...config, preserveStructure: e.target.checked })}
+                      style={{ width: '16px', height: '16px' }}
+                    />
+                    <label htmlFor="preserveStructure" style={{ marginBottom: 0, cursor: 'pointer' }}>在输出目录中保持拖入文件夹的目录结构</label>
+                  </div>
+                  <div className="control">
+                    <label>输出文件已存在时</label>
+                    <select
+                      style={{ padding: '8px' }}
+                      value={config.collisionPolicy || 'rename'}
+                      onChange={(e) => setConfig({ ...config, collisionPolicy: e.target.value as CollisionPolicy })}
+                    >
+                      <option value="rename">自动编号另存</option>
+                      <option value="overwrite">覆盖</option>
+                      <option value="skip">跳过该文件</option>
+                      <option value="error">报错</option>
+                    </select>
+                  </div>
+                </>
+              )}
               <div className="control">
                 <label>文件名后缀</label>
                 <input style={{ padding: '8px' }} value={config.copySuffix || ''} onChange={(e) => setConfig({ ...config, copySuffix: e.target.value })} />
               </div>
+              <div className="control">
+                <label>Word 修订 (Track Changes) 处理</label>
+                <select
+                  style={{ padding: '8px' }}
+                  value={config.revisionPolicy || 'anonymize'}
+                  onChange={(e) => setConfig({ ...config, revisionPolicy: e.target.value as RevisionPolicy })}
+                >
+                  <option value="anonymize">保留修订，匿名化作者与时间</option>
+                  <option value="accept">接受全部修订（会改动文档内容）</option>
+                  <option value="reject">拒绝全部修订（会改动文档内容）</option>
+                </select>
+              </div>
+              <div className="control">
+                <label>压缩包递归清理层数</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  style={{ padding: '8px' }}
+                  value={config.archiveDepth ?? 2}
+                  onChange={(e) => setConfig({ ...config, archiveDepth: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </div>
+              <div className="control">
+                <label>同时处理的文件数（留空按 CPU 核心数，音视频始终逐个处理）</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={16}
+                  style={{ padding: '8px' }}
+                  value={config.concurrency ?? ''}
+                  onChange={(e) => setConfig({ ...config, concurrency: e.target.value ? Math.max(1, Number(e.target.value) || 1) : undefined })}
+                />
+              </div>
+              <div className="control">
+                <label>扫描文件夹时只包含（每行一个 glob，如 *.jpg、photos/**，留空包含全部）</label>
+                <textarea
+                  rows={2}
+                  style={{ padding: '8px', fontFamily: 'monospace' }}
+                  value={(config.scan?.include ?? []).join('\n')}
+                  onChange={(e) => setScan({ include: e.target.value.split('\n') })}
+                />
+              </div>
+              <div className="control">
+                <label>扫描文件夹时排除（每行一个 glob，匹配的目录整个跳过）</label>
+                <textarea
+                  rows={3}
+                  style={{ padding: '8px', fontFamily: 'monospace' }}
+                  value={(config.scan?.exclude ?? []).join('\n')}
+                  onChange={(e) => setScan({ exclude: e.target.value.split('\n') })}
+                />
+              </div>
+              <div className="control">
+                <label>子目录最大层数（0 只扫描文件夹下的文件，留空不限）</label>
+                <input
+                  type="number"
+                  min={0}
+                  style={{ padding: '8px' }}
+                  value={config.scan?.maxDepth ?? ''}
+                  onChange={(e) => setScan({ maxDepth: e.target.value ? Math.max(0, Number(e.target.value) || 0) : undefined })}
+                />
+              </div>
+              <div className="control">
+                <label>符号链接</label>
+                <select
+                  style={{ padding: '8px' }}
+                  value={config.scan?.symlinks || 'follow'}
+                  onChange={(e) => setScan({ symlinks: e.target.value as SymlinkPolicy })}
+                >
+                  <option value="follow">跟随（自动跳过循环链接）</option>
+                  <option value="follow-once">只跟随一层</option>
+                  <option value="skip">跳过</option>
+                </select>
+              </div>
+              <div className="control" style={{ flexDirection: 'row', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="checkbox"
+                  id="includeHidden"
+                  checked={!!config.scan?.includeHidden}
+                  onChange={(e) => setScan({ includeHidden: e.target.checked })}
+                  style={{ width: '16px', height: '16px' }}
+                />
+                <label htmlFor="includeHidden" style={{ marginBottom: 0, cursor: 'pointer' }}>包含隐藏文件与文件夹（以 . 开头，如 .git）</label>
+              </div>
+              <div className="control" style={{ flexDirection: 'row', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="checkbox"
+                  id="keepCoverArt"
+                  checked={!!config.keepCoverArt}
+                  onChange={(e) => setConfig({ ...config, keepCoverArt: e.target.checked })}
+                  style={{ width: '16px', height: '16px' }}
+                />
+                <label htmlFor="keepCoverArt" style={{ marginBottom: 0, cursor: 'pointer' }}>保留音频内嵌封面 (MP3/FLAC/M4A)</label>
+              </div>
+              <div className="control" style={{ flexDirection: 'row', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="checkbox"
+                  id="applyOrientation"
+                  checked={!!config.applyOrientation}
+                  onChange={(e) => setConfig({ ...config, applyOrientation: e.target.checked })}
+                  style={{ width: '16px', height: '16px' }}
+                />
+                <label htmlFor="applyOrientation" style={{ marginBottom: 0, cursor: 'pointer' }}>按 EXIF 方向旋转图片（会重新编码）</label>
+              </div>
+              <div className="control" style={{ flexDirection: 'row', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="checkbox"
+                  id="keepPdfLinks"
+                  checked={!!config.keepPdfLinks}
+                  onChange={(e) => setConfig({ ...config, keepPdfLinks: e.target.checked })}
+                  style={{ width: '16px', height: '16px' }}
+                />
+                <label htmlFor="keepPdfLinks" style={{ marginBottom: 0, cursor: 'pointer' }}>保留 PDF 超链接</label>
+              </div>
+              <div className="control" style={{ flexDirection: 'row', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="checkbox"
+                  id="keepPdfForms"
+                  checked={!!config.keepPdfForms}
+                  onChange={(e) => setConfig({ ...config, keepPdfForms: e.target.checked })}
+                  style={{ width: '16px', height: '16px' }}
+                />
+                <label htmlFor="keepPdfForms" style={{ marginBottom: 0, cursor: 'pointer' }}>保留 PDF 表单控件（清空填写值）</label>
+              </div>
+              <div className="control" style={{ flexDirection: 'row', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="checkbox"
+                  id="keepLanguage"
+                  checked={!!config.keepLanguage}
+                  onChange={(e) => setConfig({ ...config, keepLanguage: e.target.checked })}
+                  style={{ width: '16px', height: '16px' }}
+                />
+                <label htmlFor="keepLanguage" style={{ marginBottom: 0, cursor: 'pointer' }}>保留视频音轨/字幕的语言标签</label>
+              </div>
+              <div className="control" style={{ flexDirection: 'row', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="checkbox"
+                  id="keepSubtitles"
+                  checked={!!config.keepSubtitles}
+                  onChange={(e) => setConfig({ ...config, keepSubtitles: e.target.checked })}
+                  style={{ width: '16px', height: '16px' }}
+                />
+                <label htmlFor="keepSubtitles" style={{ marginBottom: 0, cursor: 'pointer' }}>保留视频字幕轨道</label>
+              </div>
             </div>
             <button onClick={() => saveSettings(config)} disabled={!config.overwriteSource && !config.outputDir} style={{ width: '100%', padding: '10px', marginTop: '20px' }}>保存并关闭</button>
           </div>
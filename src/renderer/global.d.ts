@@ -1,22 +1,28 @@
-import type { ProcessItem, ProcessOptions, ProcessResult, AppConfig } from '../main/types';
+import type { ProcessItem, ProcessOptions, ProcessProgress, ProcessResult, AppConfig, MetadataProfile, ScanResult, ScanOptions, BackupBatchInfo, UndoResult, ProcessorInfo } from '../main/types';
 
 declare global {
   interface Window {
     electronAPI: {
       getConfig: () => Promise<AppConfig>;
       setConfig: (config: AppConfig) => Promise<boolean>;
-      getFileInfo: (path: string) => Promise<FileDetailedInfo>;
+      getProfiles: () => Promise<MetadataProfile[]>;
+      getProcessors: () => Promise<ProcessorInfo[]>;
+      getFileInfo: (path: string, profile?: MetadataProfile) => Promise<FileDetailedInfo>;
       clearDirectory: (dirPath: string) => Promise<boolean>;
       openDirectory: (dirPath: string) => Promise<boolean>;
       selectDirectory: () => Promise<string | null>;
       selectFiles: () => Promise<string[]>;
       openFileDialog: () => Promise<string | null>;
       getFilePath: (file: File) => string | null;
-      scanPaths: (paths: string[]) => Promise<{ files: string[] }>;
+      scanPaths: (paths: string[], options?: ScanOptions, profile?: MetadataProfile) => Promise<ScanResult>;
       processFiles: (
         items: ProcessItem[],
         options: ProcessOptions,
       ) => Promise<ProcessResult[]>;
+      cancelProcessing: () => Promise<boolean>;
+      getLastBatch: () => Promise<BackupBatchInfo | null>;
+      undoLastBatch: () => Promise<UndoResult | null>;
+      onProcessProgress: (listener: (progress: ProcessProgress) => void) => () => void;
       onFileDrop: (listener: (paths: string[]) => void) => () => void;
       onNavFileDrop: (listener: (paths: string[]) => void) => () => void;
     };